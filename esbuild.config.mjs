@@ -12,6 +12,48 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = process.argv[2] === "production";
 
+/** Bundle imports ending in "?worker" or "?script" on their own, and import the result as a string of code.
+ * - "?worker": The string then starts a Web Worker from a Blob URL. See src/graph/builders/implied/worker_client.ts
+ * - "?script": The string is inlined into exported files. See src/utils/markmap_viewer.ts
+ */
+const inline_bundle = {
+	name: "inline-bundle",
+	setup(build) {
+		build.onResolve({ filter: /\?(worker|script)$/ }, async (args) => {
+			const resolved = await build.resolve(
+				args.path.replace(/\?(worker|script)$/, ""),
+				{ kind: args.kind, resolveDir: args.resolveDir },
+			);
+			if (resolved.errors.length) return { errors: resolved.errors };
+
+			return { path: resolved.path, namespace: "inline-bundle" };
+		});
+
+		build.onLoad(
+			{ filter: /.*/, namespace: "inline-bundle" },
+			async (args) => {
+				const result = await esbuild.build({
+					entryPoints: [args.path],
+					bundle: true,
+					write: false,
+					metafile: true,
+					format: "iife",
+					target: "es2018",
+					minify: prod,
+					sourcemap: prod ? false : "inline",
+					logLevel: "silent",
+				});
+
+				return {
+					contents: result.outputFiles[0].text,
+					loader: "text",
+					watchFiles: Object.keys(result.metafile.inputs),
+				};
+			},
+		);
+	},
+};
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
@@ -41,6 +83,7 @@ const context = await esbuild.context({
 	treeShaking: true,
 	outfile: "main.js",
 	plugins: [
+		inline_bundle,
 		esbuildSvelte({
 			compilerOptions: { css: true },
 			preprocess: sveltePreprocess(),
@@ -0,0 +1,42 @@
+import type { App, EventRef } from "obsidian";
+import type { BCEdge, BCGraph } from "src/graph/MyMultiGraph";
+
+/** The events Breadcrumbs triggers on app.workspace.
+ * Subscribe with `app.workspace.on(BCAPI.events.graph_rebuilt, (payload) => ...)`
+ */
+export const BC_EVENTS = {
+	/** After a full or node-level rebuild of the graph */
+	graph_rebuilt: "breadcrumbs:graph-rebuilt",
+	/** After a node-level rebuild adds an explicit edge. Full rebuilds don't trigger this for each edge */
+	edge_added: "breadcrumbs:edge-added",
+	/** After a node-level rebuild removes an explicit edge */
+	edge_removed: "breadcrumbs:edge-removed",
+} as const;
+
+export type BCEventPayloads = {
+	[BC_EVENTS.graph_rebuilt]: {
+		graph: BCGraph;
+		/** The note that changed, if only part of the graph was rebuilt */
+		changed_file_path?: string;
+	};
+	[BC_EVENTS.edge_added]: BCEdge;
+	[BC_EVENTS.edge_removed]: BCEdge;
+};
+
+export type BCEventName = keyof BCEventPayloads;
+
+declare module "obsidian" {
+	interface Workspace {
+		on<E extends BCEventName>(
+			name: E,
+			callback: (payload: BCEventPayloads[E]) => unknown,
+			ctx?: unknown,
+		): EventRef;
+	}
+}
+
+export const trigger_event = <E extends BCEventName>(
+	app: App,
+	name: E,
+	payload: BCEventPayloads[E],
+) => app.workspace.trigger(name, payload);
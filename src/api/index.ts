@@ -1,12 +1,37 @@
+import type { TFile } from "obsidian";
 import { ListIndex } from "src/commands/list_index";
+import { dataview_plugin } from "src/external/dataview";
 import { Traverse } from "src/graph/traverse";
+import { has_edge_attrs, type EdgeAttrFilters } from "src/graph/utils";
+import { log } from "src/logger";
+import type { CrumbDestination } from "src/interfaces/settings";
 import { active_file_store } from "src/stores/active_file";
+import { drop_crumbs, remove_crumbs } from "src/utils/drop_crumb";
+import { resolve_field_group_labels } from "src/utils/edge_fields";
+import { wait_for_metadata_change } from "src/utils/metadata_change";
+import { Trail } from "src/utils/trail";
 import { get } from "svelte/store";
 import type BCPlugin from "../main";
+import { BC_EVENTS } from "./events";
 
+/** The version of the API itself, separate from the plugin version.
+ * - Major: Breaking changes to existing methods
+ * - Minor: New methods or options
+ */
+export const API_VERSION = "1.1.0";
+
+/** The API, available to other plugins and scripts as `window.BCAPI`.
+ * Most methods default to the active note if no path is given.
+ */
 export class BCAPI {
 	plugin: BCPlugin;
 
+	/** Check this before using newer methods, e.g. `BCAPI.version.split(".")[0] === "1"` */
+	public readonly version = API_VERSION;
+
+	/** The names of the events triggered on app.workspace. See {@link BC_EVENTS} */
+	public readonly events = BC_EVENTS;
+
 	public constructor(plugin: BCPlugin) {
 		this.plugin = plugin;
 	}
@@ -23,8 +48,14 @@ export class BCAPI {
 	/** @deprecated Use refresh */
 	public refreshIndex = this.refresh;
 
-	/** @deprecated Filter edges of plugin.graph instead */
-	public getSubForFields = (fields: string[], g = this.plugin.graph) => {};
+	/** @deprecated Does nothing. Use get_neighbours or get_in_edges with `{ $or_fields: fields }` instead,
+	 * or filter the edges of plugin.graph
+	 */
+	public getSubForFields = (_fields: string[], _g = this.plugin.graph) => {
+		log.warn(
+			"BCAPI.getSubForFields is deprecated, and does nothing. Use BCAPI.get_neighbours(path, { $or_fields: fields }) instead",
+		);
+	};
 
 	public build_tree = Traverse.build_tree;
 	public breadth_first_traversal = Traverse.breadth_first;
@@ -42,15 +73,185 @@ export class BCAPI {
 		);
 	};
 
-	// BREAKING
-	/** @deprecated Use flatten_all_paths and flat_paths_to_index_list instead. Or, create_list_index */
-	public createIndex = () => {};
+	/** @deprecated Does nothing. Use create_list_index instead */
+	public createIndex = () => {
+		log.warn(
+			"BCAPI.createIndex is deprecated, and does nothing. Use BCAPI.create_list_index(start_node, options) instead",
+		);
+	};
 
-	public get_neighbours = (source = get(active_file_store)?.path) =>
+	/** The out-edges of a note, optionally filtered by their attributes */
+	public get_neighbours = (
+		source = get(active_file_store)?.path,
+		attr?: EdgeAttrFilters,
+	) =>
 		source && this.plugin.graph.hasNode(source)
-			? this.plugin.graph.get_out_edges(source)
+			? this.plugin.graph
+					.get_out_edges(source)
+					.filter((edge) => !attr || has_edge_attrs(edge, attr))
 			: [];
 
 	/** @deprecated Use get_neighbours instead */
 	public getMatrixNeighbours = this.get_neighbours;
+
+	/** The in-edges of a note, optionally filtered by their attributes */
+	public get_in_edges = (
+		target = get(active_file_store)?.path,
+		attr?: EdgeAttrFilters,
+	) =>
+		target && this.plugin.graph.hasNode(target)
+			? this.plugin.graph
+					.get_in_edges(target)
+					.filter((edge) => !attr || has_edge_attrs(edge, attr))
+			: [];
+
+	/** The shortest path of edges from one note to another, or null if there isn't one */
+	public get_shortest_path = (
+		from: string,
+		to: string,
+		attr?: EdgeAttrFilters,
+	) =>
+		Traverse.shortest_path_between(
+			this.plugin.graph,
+			from,
+			to,
+			attr ? (edge) => has_edge_attrs(edge, attr) : undefined,
+		);
+
+	/** Up to k of the shortest simple paths from one note to another, shortest first */
+	public get_k_shortest_paths = (
+		from: string,
+		to: string,
+		k: number,
+		attr?: EdgeAttrFilters,
+	) =>
+		Traverse.k_shortest_paths_between(
+			this.plugin.graph,
+			from,
+			to,
+			k,
+			attr ? (edge) => has_edge_attrs(edge, attr) : undefined,
+		);
+
+	/** All simple paths of edges from one note to another, shortest first.
+	 * Pass max_paths to stop after that many
+	 */
+	public get_paths = (
+		from: string,
+		to: string,
+		attr?: EdgeAttrFilters,
+		options?: { max_depth?: number; max_paths?: number },
+	) =>
+		Traverse.all_paths_between(
+			this.plugin.graph,
+			from,
+			to,
+			attr ? (edge) => has_edge_attrs(edge, attr) : undefined,
+			options,
+		);
+
+	/** The paths the trail view shows for a note. Options default to the trail view settings */
+	public get_trail = (
+		file_path = get(active_file_store)?.path,
+		options?: {
+			field_group_labels?: string[];
+			merge_fields?: boolean;
+			selection?: "all" | "shortest" | "longest";
+		},
+	) => {
+		if (!file_path) throw new Error("No active file");
+
+		const { trail } = this.plugin.settings.views.page;
+
+		return Trail.get_paths(this.plugin.graph, file_path, {
+			edge_field_labels: resolve_field_group_labels(
+				this.plugin.settings.edge_field_groups,
+				options?.field_group_labels ?? trail.field_group_labels,
+			),
+			merge_fields: options?.merge_fields ?? trail.merge_fields,
+			selection: options?.selection ?? trail.selection,
+		});
+	};
+
+	/** Add an edge by writing a typed link to the source note.
+	 * The source note is then rebuilt, so the edge is in the graph (and BCAPI.events.edge_added has fired) once this resolves
+	 */
+	public add_edge = async (
+		source: string,
+		target: string,
+		field: string,
+		options?: { destination?: CrumbDestination },
+	) => {
+		const source_file = this.get_field_source_file(source, field);
+
+		await drop_crumbs(
+			this.plugin,
+			source_file,
+			[
+				{
+					source_id: source,
+					target_id: target,
+					attr: { field },
+					target_attr: {
+						aliases: this.plugin.graph.hasNode(target)
+							? this.plugin.graph.getNodeAttribute(
+									target,
+									"aliases",
+								)
+							: undefined,
+					},
+				},
+			],
+			{ destination: options?.destination ?? "frontmatter" },
+		);
+
+		await this.rebuild_written_file(source_file);
+	};
+
+	/** Remove an edge by removing its typed link from the source note (frontmatter or dataview inline field).
+	 * Only edges added by typed links can be removed this way.
+	 * The source note is then rebuilt, so BCAPI.events.edge_removed has fired once this resolves
+	 * @returns The number of links removed
+	 */
+	public remove_edge = async (
+		source: string,
+		target: string,
+		field: string,
+	) => {
+		const source_file = this.get_field_source_file(source, field);
+
+		const removed = await remove_crumbs(this.plugin, source_file, [
+			{ field, target_id: target },
+		]);
+
+		if (removed) await this.rebuild_written_file(source_file);
+
+		return removed;
+	};
+
+	/** Rebuild a note's edges right after writing to it, regardless of the note_save trigger.
+	 * Waits for the metadata cache (or Dataview, if it's enabled) to pick up the write first, since the builders read from it.
+	 */
+	private rebuild_written_file = async (file: TFile) => {
+		await wait_for_metadata_change(
+			this.plugin.app.metadataCache,
+			file.path,
+			{
+				dataview: dataview_plugin.is_enabled(this.plugin.app),
+			},
+		);
+
+		await this.plugin.refresh({ changed_file: file });
+	};
+
+	private get_field_source_file = (source: string, field: string) => {
+		if (!this.plugin.settings.edge_fields.some((f) => f.label === field)) {
+			throw new Error(`Not a valid BC field: '${field}'`);
+		}
+
+		const source_file = this.plugin.app.vault.getFileByPath(source);
+		if (!source_file) throw new Error(`File not found: '${source}'`);
+
+		return source_file;
+	};
 }
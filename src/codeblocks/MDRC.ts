@@ -1,7 +1,11 @@
 import { MarkdownRenderChild } from "obsidian";
 import CodeblockErrors from "src/components/codeblocks/CodeblockErrors.svelte";
+import CodeblockGraph from "src/components/codeblocks/CodeblockGraph.svelte";
+import CodeblockList from "src/components/codeblocks/CodeblockList.svelte";
 import CodeblockMarkmap from "src/components/codeblocks/CodeblockMarkmap.svelte";
 import CodeblockMermaid from "src/components/codeblocks/CodeblockMermaid.svelte";
+import CodeblockPath from "src/components/codeblocks/CodeblockPath.svelte";
+import CodeblockTable from "src/components/codeblocks/CodeblockTable.svelte";
 import CodeblockTree from "src/components/codeblocks/CodeblockTree.svelte";
 import { log } from "src/logger";
 import type BreadcrumbsPlugin from "src/main";
@@ -11,7 +15,15 @@ import { Codeblocks } from ".";
 export class CodeblockMDRC extends MarkdownRenderChild {
 	source: string;
 	plugin: BreadcrumbsPlugin;
-	component: CodeblockTree | CodeblockMermaid | undefined;
+	component:
+		| CodeblockTree
+		| CodeblockMermaid
+		| CodeblockMarkmap
+		| CodeblockPath
+		| CodeblockTable
+		| CodeblockList
+		| CodeblockGraph
+		| undefined;
 	file_path: string;
 	id: string;
 
@@ -104,6 +116,7 @@ export class CodeblockMDRC extends MarkdownRenderChild {
 					options,
 					file_path,
 					plugin: this.plugin,
+					source: this.source,
 				},
 			});
 		} else if (options.type === "markmap") {
@@ -116,6 +129,46 @@ export class CodeblockMDRC extends MarkdownRenderChild {
 					plugin: this.plugin,
 				},
 			});
+		} else if (options.type === "path") {
+			this.component = new CodeblockPath({
+				target: this.containerEl,
+				props: {
+					errors,
+					options,
+					file_path,
+					plugin: this.plugin,
+				},
+			});
+		} else if (options.type === "table") {
+			this.component = new CodeblockTable({
+				target: this.containerEl,
+				props: {
+					errors,
+					options,
+					file_path,
+					plugin: this.plugin,
+				},
+			});
+		} else if (options.type === "list") {
+			this.component = new CodeblockList({
+				target: this.containerEl,
+				props: {
+					errors,
+					options,
+					file_path,
+					plugin: this.plugin,
+				},
+			});
+		} else if (options.type === "graph") {
+			this.component = new CodeblockGraph({
+				target: this.containerEl,
+				props: {
+					errors,
+					options,
+					file_path,
+					plugin: this.plugin,
+				},
+			});
 		} else {
 			log.error("CodeblockMDRC unknown type", options.type);
 		}
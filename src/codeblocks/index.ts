@@ -88,25 +88,32 @@ const postprocess_options = (
 ) => {
 	let file_path = source_path;
 
-	if (parsed["start-note"]) {
-		const normalised = Paths.normalise(
-			Paths.ensure_ext(parsed["start-note"], "md"),
-		);
+	const resolve_note = (field: "start-note" | "end-note", note: string) => {
+		const normalised = Paths.normalise(Paths.ensure_ext(note, "md"));
 
-		const start_file = plugin.app.metadataCache.getFirstLinkpathDest(
+		const file = plugin.app.metadataCache.getFirstLinkpathDest(
 			normalised,
-			file_path,
+			source_path,
 		);
 
-		if (start_file) {
-			file_path = start_file.path;
-		} else {
+		if (!file) {
 			errors.push({
-				path: "start-note",
+				path: field,
 				code: "invalid_field_value",
 				message: `Could not find note \`${normalised}\` in your vault. Try a different path.`,
 			});
 		}
+
+		return file?.path;
+	};
+
+	if (parsed["start-note"]) {
+		file_path =
+			resolve_note("start-note", parsed["start-note"]) ?? file_path;
+	}
+
+	if (parsed["end-note"]) {
+		parsed["end-note-path"] = resolve_note("end-note", parsed["end-note"]);
 	}
 
 	if (parsed["dataview-from"]) {
@@ -114,8 +121,7 @@ const postprocess_options = (
 			const pages = dataview_plugin
 				.get_api(plugin.app)
 				?.pages(parsed["dataview-from"]) as
-				| undefined
-				| IDataview.Page[];
+				undefined | IDataview.Page[];
 
 			parsed["dataview-from-paths"] = pages?.map(
 				(page) => page.file.path,
@@ -143,6 +149,12 @@ const unregister = (codeBlock: CodeblockMDRC) => {
 	active_codeblocks.delete(codeBlock.id);
 };
 
+/** The codeblocks currently rendered in a given note */
+const get_in_file = (file_path: string) =>
+	[...active_codeblocks.values()].filter(
+		(codeblock) => codeblock.file_path === file_path,
+	);
+
 const update_all = () => {
 	for (const codeBlock of active_codeblocks.values()) {
 		void codeBlock.update();
@@ -155,5 +167,6 @@ export const Codeblocks = {
 
 	register,
 	unregister,
+	get_in_file,
 	update_all,
 };
@@ -1,5 +1,7 @@
 import { SIMPLE_EDGE_SORT_FIELDS } from "src/const/graph";
+import { GraphLayout } from "src/graph/layout";
 import { EDGE_ATTRIBUTES } from "src/graph/MyMultiGraph";
+import { parse_edge_attr_filters } from "src/graph/utils";
 import type { EdgeField, EdgeFieldGroup } from "src/interfaces/settings";
 import { remove_duplicates } from "src/utils/arrays";
 import { resolve_field_group_labels } from "src/utils/edge_fields";
@@ -11,9 +13,11 @@ const FIELDS = [
 	"type",
 	"title",
 	"start-note",
+	"end-note",
 	"fields",
 	"field-groups",
 	"depth",
+	"limit",
 	"flat",
 	"collapse",
 	"merge-fields",
@@ -22,9 +26,16 @@ const FIELDS = [
 	"sort",
 	"field-prefix",
 	"show-attributes",
+	"columns",
 	"mermaid-direction",
 	"mermaid-renderer",
 	"mermaid-curve",
+	"mermaid-export",
+	"mermaid-class-by",
+	"mermaid-group-by",
+	"mermaid-shape-by-source",
+	"graph-layout",
+	"edge-filter",
 ] as const;
 type CodeblockField = (typeof FIELDS)[number];
 
@@ -56,6 +67,15 @@ const build = (input: Record<string, unknown>, data: InputData) => {
 				})
 				.optional(),
 
+			"end-note": z
+				.string({
+					message: zod.error.not_string(
+						"end-note",
+						input["end-note"],
+					),
+				})
+				.optional(),
+
 			"dataview-from": z
 				.string({
 					message: zod.error.not_string(
@@ -106,13 +126,32 @@ const build = (input: Record<string, unknown>, data: InputData) => {
 				.optional(),
 
 			type: z
-				.enum(["tree", "mermaid", "markmap"], {
-					message: zod.error.invalid_enum(
-						"type",
-						["tree", "mermaid", "markmap"],
-						input["type"],
-					),
-				})
+				.enum(
+					[
+						"tree",
+						"mermaid",
+						"markmap",
+						"path",
+						"table",
+						"list",
+						"graph",
+					],
+					{
+						message: zod.error.invalid_enum(
+							"type",
+							[
+								"tree",
+								"mermaid",
+								"markmap",
+								"path",
+								"table",
+								"list",
+								"graph",
+							],
+							input["type"],
+						),
+					},
+				)
 				.default("tree"),
 
 			"mermaid-renderer": z
@@ -143,6 +182,56 @@ const build = (input: Record<string, unknown>, data: InputData) => {
 				})
 				.optional(),
 
+			"mermaid-export": z
+				.enum(Mermaid.IMAGE_FORMATS, {
+					message: zod.error.invalid_enum(
+						"mermaid-export",
+						Mermaid.IMAGE_FORMATS,
+						input["mermaid-export"],
+					),
+				})
+				.optional(),
+
+			// Either "tags", or the name of a frontmatter property
+			"mermaid-class-by": z
+				.string({
+					message: zod.error.not_string(
+						"mermaid-class-by",
+						input["mermaid-class-by"],
+					),
+				})
+				.optional(),
+
+			// Either "folder", or the name of a frontmatter property
+			"mermaid-group-by": z
+				.string({
+					message: zod.error.not_string(
+						"mermaid-group-by",
+						input["mermaid-group-by"],
+					),
+				})
+				.optional(),
+
+			"mermaid-shape-by-source": z
+				.boolean({
+					message: zod.error.invalid_enum(
+						"mermaid-shape-by-source",
+						BOOLEANS,
+						input["mermaid-shape-by-source"],
+					),
+				})
+				.optional(),
+
+			"graph-layout": z
+				.enum(GraphLayout.LAYOUTS, {
+					message: zod.error.invalid_enum(
+						"graph-layout",
+						GraphLayout.LAYOUTS,
+						input["graph-layout"],
+					),
+				})
+				.optional(),
+
 			"show-attributes": z
 				.array(z.enum(EDGE_ATTRIBUTES), {
 					message: zod.error.not_array(
@@ -153,10 +242,41 @@ const build = (input: Record<string, unknown>, data: InputData) => {
 				})
 				.optional(),
 
+			columns: z
+				.array(z.string(), {
+					message: zod.error.not_array(
+						"columns",
+						["status", "tags"],
+						input["columns"],
+					),
+				})
+				.optional(),
+
 			fields: zod.schema
 				.dynamic_enum_array("fields", field_labels, input["fields"])
 				.optional(),
 
+			"edge-filter": z
+				.string({
+					message: zod.error.not_string(
+						"edge-filter",
+						input["edge-filter"],
+					),
+				})
+				.transform((v, ctx) => {
+					const filters = parse_edge_attr_filters(v);
+					if (filters.ok) return filters.data;
+
+					ctx.addIssue({
+						code: "custom",
+						message: `${filters.error}. _Try using space-separated \`key=value\` pairs, with keys \`field\`, \`source\`, \`implied_kind\`, \`explicit\`, or \`round\`._
+**Example**: \`edge-filter: source=dendron_note\`, or \`edge-filter: field=up explicit=true\``,
+					});
+
+					return z.NEVER;
+				})
+				.optional(),
+
 			"field-groups": zod.schema
 				.dynamic_enum_array(
 					"field-groups",
@@ -210,6 +330,22 @@ const build = (input: Record<string, unknown>, data: InputData) => {
 				})
 				.default([0, Infinity]),
 
+			limit: z
+				.number({
+					message: `Expected a number, but got: \`${input["limit"]}\` (${typeof input["limit"]}). _Try using a whole number._
+**Example**: \`limit: 3\``,
+				})
+				.int(
+					`Expected a whole number, but got: \`${input["limit"]}\`. _Try removing the decimal point._
+**Example**: \`limit: 3\``,
+				)
+				.min(
+					1,
+					`The limit must be at least \`1\`, but got: \`${input["limit"]}\`.
+**Example**: \`limit: 3\``,
+				)
+				.optional(),
+
 			sort: z
 				.preprocess(
 					(v) => {
@@ -301,6 +437,17 @@ const build = (input: Record<string, unknown>, data: InputData) => {
 				return false;
 			}
 
+			if (options.type === "path" && !options["end-note"]) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["end-note"],
+					message: `A \`path\` codeblock needs an \`end-note\` to find paths to. _Try adding the field._
+**Example**: \`end-note: folder/note.md\``,
+				});
+
+				return false;
+			}
+
 			return true;
 		});
 };
@@ -317,5 +464,7 @@ export type ICodeblock = {
 	/** Once resolved, the non-optional fields WILL be there, with a default if missing */
 	Options: z.infer<ReturnType<typeof build>> & {
 		"dataview-from-paths"?: string[];
+		/** The resolved path of the `end-note` */
+		"end-note-path"?: string;
 	};
 };
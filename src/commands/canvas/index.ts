@@ -0,0 +1,271 @@
+import type { App } from "obsidian";
+import type {
+	AllCanvasNodeData,
+	CanvasData,
+	CanvasEdgeData,
+	CanvasFileData,
+} from "obsidian/canvas";
+import { GraphLayout } from "src/graph/layout";
+import type { BCEdge, BCGraph } from "src/graph/MyMultiGraph";
+import { Traverse, type EdgeTree } from "src/graph/traverse";
+import { has_edge_attrs, type EdgeSorter } from "src/graph/utils";
+import type { Result } from "src/interfaces/result";
+import { fail, succ } from "src/utils/result";
+import { hash_string } from "src/utils/strings";
+
+const LAYOUTS = ["tree", "dag"] as const;
+export type CanvasLayout = (typeof LAYOUTS)[number];
+
+const NODE_WIDTH = 400;
+const NODE_HEIGHT = 300;
+const H_GAP = 100;
+const V_GAP = 200;
+
+/** Generated nodes and edges get this id prefix, so they can be told apart from ones added by hand */
+const ID_PREFIX = "bc-";
+
+/** Implied edges are drawn in grey, so explicit edges stand out */
+const IMPLIED_EDGE_COLOUR = "#888888";
+
+const make_id = (...parts: string[]) =>
+	ID_PREFIX + hash_string(parts.join("|"));
+
+const is_generated = (item: { id: string }) => item.id.startsWith(ID_PREFIX);
+
+/** Each edge once, even if the tree reaches it through more than one branch */
+const get_tree_edges = (tree: EdgeTree[]) => {
+	const seen = new Set<string>();
+
+	return Traverse.flatten_tree(tree)
+		.map((item) => item.edge)
+		.filter((edge) => {
+			const key = [edge.source_id, edge.target_id, edge.attr.field].join(
+				"|",
+			);
+			if (seen.has(key)) return false;
+
+			seen.add(key);
+			return true;
+		});
+};
+
+/** The tree of edges to lay out, from start_node out to `depth` edges away.
+ * Leave `fields` undefined to follow every field.
+ */
+const build_tree = (
+	graph: BCGraph,
+	start_node: string,
+	options: { fields?: string[]; depth: number; sort: EdgeSorter },
+) =>
+	Traverse.sort_edge_tree(
+		Traverse.build_tree(
+			graph,
+			start_node,
+			// NOTE: build_tree's max_depth is 0-indexed
+			{ max_depth: options.depth - 1 },
+			(edge) => has_edge_attrs(edge, { $or_fields: options.fields }),
+		),
+		options.sort,
+	);
+
+/** A tidy tree: leaves side by side, parents centred over their children.
+ * Notes that appear in more than one branch are placed at their first appearance.
+ */
+const tree_positions = (root_id: string, tree: EdgeTree[]) => {
+	const positions = new Map<string, { x: number; y: number }>();
+	let next_leaf_x = 0;
+
+	const place = (id: string, depth: number, children: EdgeTree[]): number => {
+		const child_xs: number[] = [];
+
+		children.forEach((child) => {
+			if (positions.has(child.edge.target_id)) return;
+
+			// Reserve the spot before recursing, in case of cycles
+			positions.set(child.edge.target_id, { x: 0, y: 0 });
+
+			child_xs.push(
+				place(child.edge.target_id, depth + 1, child.children),
+			);
+		});
+
+		const x = child_xs.length
+			? (child_xs[0] + child_xs[child_xs.length - 1]) / 2
+			: next_leaf_x++ * (NODE_WIDTH + H_GAP);
+
+		positions.set(id, { x, y: depth * (NODE_HEIGHT + V_GAP) });
+
+		return x;
+	};
+
+	positions.set(root_id, { x: 0, y: 0 });
+	place(root_id, 0, tree);
+
+	return positions;
+};
+
+/** Build a canvas of file nodes from an EdgeTree, with edges labelled by field */
+const from_tree = (
+	root_id: string,
+	tree: EdgeTree[],
+	options: { layout: CanvasLayout },
+): CanvasData => {
+	const edges = get_tree_edges(tree);
+
+	const positions =
+		options.layout === "tree"
+			? tree_positions(root_id, tree)
+			: GraphLayout.hierarchical(
+					GraphLayout.get_node_ids(edges, root_id),
+					edges,
+					{
+						root_id,
+						node_gap: NODE_WIDTH + H_GAP,
+						layer_gap: NODE_HEIGHT + V_GAP,
+					},
+				);
+
+	const nodes: CanvasFileData[] = [...positions.entries()].map(
+		([file, { x, y }]) => ({
+			id: make_id(file),
+			type: "file",
+			file,
+			// Canvas positions are the top-left corner
+			x: Math.round(x - NODE_WIDTH / 2),
+			y: Math.round(y),
+			width: NODE_WIDTH,
+			height: NODE_HEIGHT,
+		}),
+	);
+
+	return {
+		nodes,
+		edges: edges.map((edge) => to_canvas_edge(edge)),
+	};
+};
+
+const to_canvas_edge = (
+	edge: Pick<BCEdge, "source_id" | "target_id" | "attr">,
+): CanvasEdgeData => {
+	const canvas_edge: CanvasEdgeData = {
+		id: make_id(edge.source_id, edge.target_id, edge.attr.field),
+		fromNode: make_id(edge.source_id),
+		fromSide: "bottom",
+		toNode: make_id(edge.target_id),
+		toSide: "top",
+		label: edge.attr.field,
+	};
+
+	if (!edge.attr.explicit) canvas_edge.color = IMPLIED_EDGE_COLOUR;
+
+	return canvas_edge;
+};
+
+const parse = (text: string): Result<CanvasData, string> => {
+	// Obsidian creates empty .canvas files
+	if (!text.trim()) return succ({ nodes: [], edges: [] });
+
+	try {
+		const data = JSON.parse(text) as Partial<CanvasData> | null;
+
+		return succ({
+			...data,
+			nodes: Array.isArray(data?.nodes) ? data.nodes : [],
+			edges: Array.isArray(data?.edges) ? data.edges : [],
+		});
+	} catch (error) {
+		return fail(
+			`Invalid canvas JSON. ${error instanceof Error ? error.message : error}`,
+		);
+	}
+};
+
+/** Update an existing canvas in place.
+ * - Notes already on the canvas keep their node (and position, size, colour...)
+ * - Generated nodes for notes that aren't in the tree anymore are removed
+ * - Generated edges are replaced. Everything added by hand is kept
+ */
+const merge = (existing: CanvasData, generated: CanvasData): CanvasData => {
+	const generated_files = new Set(
+		generated.nodes.map((node) => (node as CanvasFileData).file),
+	);
+
+	const kept_nodes = existing.nodes.filter(
+		(node) =>
+			!is_generated(node) ||
+			(node.type === "file" && generated_files.has(node.file)),
+	);
+
+	// Map generated node ids to the existing node for the same file
+	const existing_ids = new Map(
+		kept_nodes
+			.filter((node): node is CanvasFileData => node.type === "file")
+			.map((node) => [make_id(node.file), node.id]),
+	);
+
+	const new_nodes = generated.nodes.filter(
+		(node) => !existing_ids.has(node.id),
+	);
+
+	const nodes: AllCanvasNodeData[] = [...kept_nodes, ...new_nodes];
+	const node_ids = new Set(nodes.map((node) => node.id));
+
+	const edges = [
+		...existing.edges.filter((edge) => !is_generated(edge)),
+		...generated.edges.map((edge) => ({
+			...edge,
+			fromNode: existing_ids.get(edge.fromNode) ?? edge.fromNode,
+			toNode: existing_ids.get(edge.toNode) ?? edge.toNode,
+		})),
+	].filter(
+		(edge) => node_ids.has(edge.fromNode) && node_ids.has(edge.toNode),
+	);
+
+	return { ...existing, nodes, edges };
+};
+
+const serialize = (data: CanvasData) => JSON.stringify(data, null, "\t");
+
+/** Write the canvas to the vault. If the file exists and `update` is on, merge into it instead of overwriting */
+const write = async (
+	app: App,
+	path: string,
+	generated: CanvasData,
+	options: { update: boolean },
+): Promise<Result<CanvasData, string>> => {
+	try {
+		const existing = app.vault.getFileByPath(path);
+		if (!existing) {
+			await app.vault.create(path, serialize(generated));
+
+			return succ(generated);
+		}
+
+		let data = generated;
+		if (options.update) {
+			const parsed = parse(await app.vault.read(existing));
+			if (!parsed.ok) return fail(parsed.error);
+
+			data = merge(parsed.data, generated);
+		}
+
+		await app.vault.modify(existing, serialize(data));
+
+		return succ(data);
+	} catch (error) {
+		return fail(
+			`Error writing "${path}". ${error instanceof Error ? error.message : error}`,
+		);
+	}
+};
+
+export const CanvasExport = {
+	LAYOUTS,
+
+	build_tree,
+	from_tree,
+	parse,
+	merge,
+	serialize,
+	write,
+};
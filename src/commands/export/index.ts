@@ -0,0 +1,333 @@
+import type {
+	BCEdge,
+	BCEdgeAttributes,
+	BCGraph,
+	BCNodeAttributes,
+} from "src/graph/MyMultiGraph";
+import { Traverse } from "src/graph/traverse";
+import { has_edge_attrs } from "src/graph/utils";
+import { Paths } from "src/utils/paths";
+
+const FORMATS = ["graphml", "gexf", "json", "dot"] as const;
+export type ExportFormat = (typeof FORMATS)[number];
+
+/** The file extension to suggest for each format */
+const EXTENSIONS: Record<ExportFormat, string> = {
+	graphml: "graphml",
+	gexf: "gexf",
+	json: "json",
+	dot: "gv",
+};
+
+export type ExportOptions = {
+	/** Only edges with these fields. All fields if undefined */
+	fields?: string[];
+	/** Only explicit (true) or implied (false) edges. Both if undefined */
+	explicit?: boolean;
+	/** Only export what's reachable from this node... */
+	start_node?: string;
+	/** ...up to this many edges away */
+	max_depth?: number;
+};
+
+type ExportNode = {
+	id: string;
+	attr: Pick<BCNodeAttributes, "resolved" | "aliases">;
+};
+
+type ExportEdge = {
+	id: string;
+	source_id: string;
+	target_id: string;
+	attr: BCEdgeAttributes;
+};
+
+type ExportData = {
+	nodes: ExportNode[];
+	edges: ExportEdge[];
+};
+
+const to_export_node = (graph: BCGraph, id: string): ExportNode => {
+	const { resolved, aliases } = graph.getNodeAttributes(id);
+
+	return { id, attr: aliases?.length ? { resolved, aliases } : { resolved } };
+};
+
+const to_export_edge = (edge: BCEdge): ExportEdge => ({
+	id: edge.id,
+	attr: edge.attr,
+	source_id: edge.source_id,
+	target_id: edge.target_id,
+});
+
+/** The nodes and edges to export.
+ * Without a start_node, every node is included, even if none of its edges are.
+ */
+const filter_graph = (graph: BCGraph, options: ExportOptions): ExportData => {
+	const edge_filter = (edge: BCEdge) =>
+		has_edge_attrs(edge, {
+			explicit: options.explicit,
+			$or_fields: options.fields,
+		});
+
+	if (options.start_node) {
+		if (!graph.hasNode(options.start_node)) return { nodes: [], edges: [] };
+
+		const max_depth = options.max_depth ?? Infinity;
+
+		const edges = Traverse.gather_items(
+			graph,
+			options.start_node,
+			(item) => item.depth < max_depth && edge_filter(item.edge),
+		).map((item) => item.edge);
+
+		const node_ids = new Set([options.start_node]);
+		edges.forEach((edge) => node_ids.add(edge.target_id));
+
+		return {
+			edges: edges.map(to_export_edge),
+			nodes: [...node_ids].map((id) => to_export_node(graph, id)),
+		};
+	} else {
+		return {
+			nodes: graph.nodes().map((id) => to_export_node(graph, id)),
+			edges: graph
+				.get_out_edges()
+				.filter(edge_filter)
+				.map(to_export_edge),
+		};
+	}
+};
+
+type AttrEntry = [string, string | number | boolean];
+
+const get_node_attr_entries = (node: ExportNode) => {
+	const entries: AttrEntry[] = [["resolved", node.attr.resolved]];
+	if (node.attr.aliases) {
+		entries.push(["aliases", node.attr.aliases.join(", ")]);
+	}
+
+	return entries;
+};
+
+/** The edge attributes, in a fixed order, skipping the ones that don't apply */
+const get_edge_attr_entries = (attr: BCEdgeAttributes) => {
+	const entries: AttrEntry[] = [
+		["field", attr.field],
+		["explicit", attr.explicit],
+	];
+
+	if (attr.explicit) {
+		entries.push(["source", attr.source]);
+	} else {
+		entries.push(
+			["implied_kind", attr.implied_kind],
+			["round", attr.round],
+		);
+	}
+
+	return entries;
+};
+
+const EDGE_ATTR_TYPES = {
+	field: "string",
+	explicit: "boolean",
+	source: "string",
+	implied_kind: "string",
+	round: "int",
+} as const;
+
+const escape_xml = (str: string) =>
+	str
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+
+const to_graphml = ({ nodes, edges }: ExportData) => {
+	const lines = [
+		`<?xml version="1.0" encoding="UTF-8"?>`,
+		`<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+		`  <key id="n_label" for="node" attr.name="label" attr.type="string"/>`,
+		`  <key id="n_resolved" for="node" attr.name="resolved" attr.type="boolean"/>`,
+		`  <key id="n_aliases" for="node" attr.name="aliases" attr.type="string"/>`,
+		...Object.entries(EDGE_ATTR_TYPES).map(
+			([key, type]) =>
+				`  <key id="e_${key}" for="edge" attr.name="${key}" attr.type="${type}"/>`,
+		),
+		`  <graph id="breadcrumbs" edgedefault="directed">`,
+	];
+
+	nodes.forEach((node) => {
+		lines.push(`    <node id="${escape_xml(node.id)}">`);
+		lines.push(
+			`      <data key="n_label">${escape_xml(Paths.basename(node.id))}</data>`,
+		);
+		get_node_attr_entries(node).forEach(([key, value]) => {
+			lines.push(
+				`      <data key="n_${key}">${escape_xml(String(value))}</data>`,
+			);
+		});
+		lines.push(`    </node>`);
+	});
+
+	edges.forEach((edge) => {
+		lines.push(
+			`    <edge id="${escape_xml(edge.id)}" source="${escape_xml(edge.source_id)}" target="${escape_xml(edge.target_id)}">`,
+		);
+		get_edge_attr_entries(edge.attr).forEach(([key, value]) => {
+			lines.push(
+				`      <data key="e_${key}">${escape_xml(String(value))}</data>`,
+			);
+		});
+		lines.push(`    </edge>`);
+	});
+
+	lines.push(`  </graph>`, `</graphml>`, "");
+
+	return lines.join("\n");
+};
+
+const to_gexf = ({ nodes, edges }: ExportData) => {
+	const lines = [
+		`<?xml version="1.0" encoding="UTF-8"?>`,
+		`<gexf xmlns="http://gexf.net/1.3" version="1.3">`,
+		`  <graph mode="static" defaultedgetype="directed">`,
+		`    <attributes class="node">`,
+		`      <attribute id="resolved" title="resolved" type="boolean"/>`,
+		`      <attribute id="aliases" title="aliases" type="string"/>`,
+		`    </attributes>`,
+		`    <attributes class="edge">`,
+		...Object.entries(EDGE_ATTR_TYPES).map(
+			([key, type]) =>
+				`      <attribute id="${key}" title="${key}" type="${
+					type === "int" ? "integer" : type
+				}"/>`,
+		),
+		`    </attributes>`,
+		`    <nodes>`,
+	];
+
+	nodes.forEach((node) => {
+		lines.push(
+			`      <node id="${escape_xml(node.id)}" label="${escape_xml(Paths.basename(node.id))}">`,
+		);
+		lines.push(`        <attvalues>`);
+		get_node_attr_entries(node).forEach(([key, value]) => {
+			lines.push(
+				`          <attvalue for="${key}" value="${escape_xml(String(value))}"/>`,
+			);
+		});
+		lines.push(`        </attvalues>`);
+		lines.push(`      </node>`);
+	});
+
+	lines.push(`    </nodes>`, `    <edges>`);
+
+	edges.forEach((edge) => {
+		lines.push(
+			`      <edge id="${escape_xml(edge.id)}" source="${escape_xml(edge.source_id)}" target="${escape_xml(edge.target_id)}" label="${escape_xml(edge.attr.field)}">`,
+		);
+		lines.push(`        <attvalues>`);
+		get_edge_attr_entries(edge.attr).forEach(([key, value]) => {
+			lines.push(
+				`          <attvalue for="${key}" value="${escape_xml(String(value))}"/>`,
+			);
+		});
+		lines.push(`        </attvalues>`);
+		lines.push(`      </edge>`);
+	});
+
+	lines.push(`    </edges>`, `  </graph>`, `</gexf>`, "");
+
+	return lines.join("\n");
+};
+
+/** The graphology serialization format, so it can be imported with `graph.import` */
+const to_json = ({ nodes, edges }: ExportData) =>
+	JSON.stringify(
+		{
+			options: { type: "directed", multi: true, allowSelfLoops: true },
+			attributes: {},
+			nodes: nodes.map((node) => ({
+				key: node.id,
+				attributes: node.attr,
+			})),
+			edges: edges.map((edge) => ({
+				key: edge.id,
+				source: edge.source_id,
+				target: edge.target_id,
+				attributes: edge.attr,
+			})),
+		},
+		null,
+		2,
+	);
+
+const quote_dot = (str: string) =>
+	`"${str.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+
+const to_dot_attrs = (entries: AttrEntry[]) =>
+	entries
+		.map(([key, value]) =>
+			typeof value === "string"
+				? `${key}=${quote_dot(value)}`
+				: `${key}=${value}`,
+		)
+		.join(", ");
+
+const to_dot = ({ nodes, edges }: ExportData) => {
+	const lines = ["digraph breadcrumbs {"];
+
+	nodes.forEach((node) => {
+		const attrs = to_dot_attrs([
+			["label", Paths.basename(node.id)],
+			...get_node_attr_entries(node),
+		]);
+
+		lines.push(`  ${quote_dot(node.id)} [${attrs}];`);
+	});
+
+	edges.forEach((edge) => {
+		const attrs = to_dot_attrs([
+			["label", edge.attr.field],
+			...get_edge_attr_entries(edge.attr),
+		]);
+
+		lines.push(
+			`  ${quote_dot(edge.source_id)} -> ${quote_dot(edge.target_id)} [${attrs}];`,
+		);
+	});
+
+	lines.push("}", "");
+
+	return lines.join("\n");
+};
+
+const serialize = (
+	graph: BCGraph,
+	format: ExportFormat,
+	options: ExportOptions,
+) => {
+	const data = filter_graph(graph, options);
+
+	switch (format) {
+		case "graphml":
+			return to_graphml(data);
+		case "gexf":
+			return to_gexf(data);
+		case "json":
+			return to_json(data);
+		case "dot":
+			return to_dot(data);
+	}
+};
+
+export const GraphExport = {
+	FORMATS,
+	EXTENSIONS,
+
+	filter_graph,
+	serialize,
+};
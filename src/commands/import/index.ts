@@ -0,0 +1,223 @@
+import type { BCGraph } from "src/graph/MyMultiGraph";
+import type { Result } from "src/interfaces/result";
+import { Paths } from "src/utils/paths";
+import { fail, succ } from "src/utils/result";
+import { TableNote } from "src/utils/table_note";
+
+const FORMATS = ["json", "csv"] as const;
+export type ImportFormat = (typeof FORMATS)[number];
+
+/** How to find the note for a node identifier in the imported file */
+const MAP_BY = ["path", "basename", "alias"] as const;
+export type ImportMapBy = (typeof MAP_BY)[number];
+
+/** An edge as it appears in the imported file, before its nodes are mapped to notes */
+export type RawImportEdge = {
+	source: string;
+	target: string;
+	field?: string;
+};
+
+/** An edge that will be written as a typed link */
+export type ImportEdge = {
+	source_id: string;
+	target_id: string;
+	field: string;
+};
+
+export type SkippedImportEdge = {
+	edge: RawImportEdge;
+	reason: string;
+};
+
+type ImportOptions = {
+	map_by: ImportMapBy;
+	/** The edge fields that exist */
+	field_labels: string[];
+	/** The field for edges that don't have one in the file */
+	default_field?: string;
+};
+
+/** Graphology's serialization format. Only the edges are needed, since they name their nodes */
+const parse_json = (text: string): Result<RawImportEdge[], string> => {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch (error) {
+		return fail(
+			`Invalid JSON. ${error instanceof Error ? error.message : error}`,
+		);
+	}
+
+	const edges = (data as { edges?: unknown } | null)?.edges;
+	if (!Array.isArray(edges)) {
+		return fail("Expected a graphology JSON object with an `edges` array");
+	}
+
+	const raw_edges: RawImportEdge[] = [];
+
+	for (const [i, edge] of edges.entries()) {
+		const { source, target, attributes } = (edge ?? {}) as Record<
+			string,
+			unknown
+		>;
+
+		if (typeof source !== "string" || typeof target !== "string") {
+			return fail(`Edge ${i + 1} is missing a source or target`);
+		}
+
+		const field = (attributes as Record<string, unknown> | undefined)
+			?.field;
+
+		raw_edges.push({
+			source,
+			target,
+			field: typeof field === "string" ? field : undefined,
+		});
+	}
+
+	return succ(raw_edges);
+};
+
+/** A CSV edge list, with `source` and `target` columns, and an optional `field` column */
+const parse_csv = (text: string): Result<RawImportEdge[], string> => {
+	const [header, ...rows] = TableNote.parse_csv(text);
+	if (!header) return fail("The CSV file is empty");
+
+	const columns = header.map((cell) => cell.trim().toLowerCase());
+	const [source_i, target_i, field_i] = ["source", "target", "field"].map(
+		(column) => columns.indexOf(column),
+	);
+
+	if (source_i === -1 || target_i === -1) {
+		return fail("Expected a header row with `source` and `target` columns");
+	}
+
+	return succ(
+		rows
+			.map((row) => ({
+				source: row[source_i]?.trim() ?? "",
+				target: row[target_i]?.trim() ?? "",
+				field:
+					field_i === -1
+						? undefined
+						: row[field_i]?.trim() || undefined,
+			}))
+			.filter((edge) => edge.source && edge.target),
+	);
+};
+
+const parse = (text: string, format: ImportFormat) =>
+	format === "json" ? parse_json(text) : parse_csv(text);
+
+/** Map node identifiers to the paths of (resolved) notes in the graph.
+ * basename and alias matching is case-insensitive, and fails if more than one note matches.
+ */
+const build_node_resolver = (graph: BCGraph, map_by: ImportMapBy) => {
+	const index = new Map<string, Set<string>>();
+
+	const add = (key: string, path: string) => {
+		const normalised = key.toLowerCase();
+		index.set(normalised, (index.get(normalised) ?? new Set()).add(path));
+	};
+
+	graph.forEachNode((path, attr) => {
+		if (!attr.resolved) return;
+
+		if (map_by === "basename") add(Paths.basename(path), path);
+		else if (map_by === "alias") attr.aliases?.forEach((a) => add(a, path));
+	});
+
+	return (id: string): Result<string, string> => {
+		if (map_by === "path") {
+			const path = Paths.normalise(Paths.ensure_ext(id.trim(), "md"));
+
+			return graph.hasNode(path) &&
+				graph.getNodeAttribute(path, "resolved")
+				? succ(path)
+				: fail(`No note at path \`${path}\``);
+		}
+
+		const key = (
+			map_by === "basename" ? Paths.drop_ext(id.trim()) : id.trim()
+		).toLowerCase();
+
+		const paths = [...(index.get(key) ?? [])];
+
+		return paths.length === 1
+			? succ(paths[0])
+			: paths.length
+				? fail(`More than one note matches \`${id}\``)
+				: fail(`No note matches \`${id}\``);
+	};
+};
+
+/** Map the raw edges onto notes, and check their fields.
+ * Edges that already exist as explicit edges, or appear twice, are skipped.
+ */
+const plan = (
+	graph: BCGraph,
+	raw_edges: RawImportEdge[],
+	options: ImportOptions,
+) => {
+	const resolve = build_node_resolver(graph, options.map_by);
+
+	const edges: ImportEdge[] = [];
+	const skipped: SkippedImportEdge[] = [];
+	const seen = new Set<string>();
+
+	for (const raw of raw_edges) {
+		const field = raw.field ?? options.default_field;
+		if (!field) {
+			skipped.push({
+				edge: raw,
+				reason: "No field, and no default field",
+			});
+			continue;
+		} else if (!options.field_labels.includes(field)) {
+			skipped.push({ edge: raw, reason: `Unknown field \`${field}\`` });
+			continue;
+		}
+
+		const source = resolve(raw.source);
+		if (!source.ok) {
+			skipped.push({ edge: raw, reason: source.error });
+			continue;
+		}
+
+		const target = resolve(raw.target);
+		if (!target.ok) {
+			skipped.push({ edge: raw, reason: target.error });
+			continue;
+		}
+
+		const key = [source.data, target.data, field].join("|");
+		const exists = graph
+			.get_out_edges(source.data)
+			.some(
+				(e) =>
+					e.attr.explicit &&
+					e.target_id === target.data &&
+					e.attr.field === field,
+			);
+
+		if (exists || seen.has(key)) {
+			skipped.push({ edge: raw, reason: "Edge already exists" });
+			continue;
+		}
+
+		seen.add(key);
+		edges.push({ source_id: source.data, target_id: target.data, field });
+	}
+
+	return { edges, skipped };
+};
+
+export const GraphImport = {
+	FORMATS,
+	MAP_BY,
+
+	parse,
+	build_node_resolver,
+	plan,
+};
@@ -1,12 +1,22 @@
 import { Notice } from "obsidian";
+import { Codeblocks } from "src/codeblocks";
+import CycleList from "src/components/CycleList.svelte";
+import CodeblockMermaid from "src/components/codeblocks/CodeblockMermaid.svelte";
+import RelationPaths from "src/components/RelationPaths.svelte";
 import SimpleInput from "src/components/input/SimpleInput.svelte";
 import { VIEW_IDS } from "src/const/views";
 import { log } from "src/logger";
 import type BreadcrumbsPlugin from "src/main";
 import { CreateListIndexModal } from "src/modals/CreateListIndexModal";
+import { ExportCanvasModal } from "src/modals/ExportCanvasModal";
+import { ExportGraphModal } from "src/modals/ExportGraphModal";
+import { FieldGroupFuzzySuggester } from "src/modals/FieldGroupFuzzySuggestModal";
 import { GenericModal } from "src/modals/GenericModal";
+import { ImportEdgesModal } from "src/modals/ImportEdgesModal";
+import { NoteFuzzySuggester } from "src/modals/NoteFuzzySuggestModal";
 import { active_file_store } from "src/stores/active_file";
 import { Timer } from "src/utils/timer";
+import type { HealthView } from "src/views/health";
 import { get } from "svelte/store";
 import { freeze_implied_edges_to_note } from "./freeze_edges";
 import { jump_to_neighbour } from "./jump";
@@ -54,6 +64,125 @@ export const init_all_commands = (plugin: BreadcrumbsPlugin) => {
 		},
 	});
 
+	plugin.addCommand({
+		id: "breadcrumbs:check-graph-health",
+		name: "Check graph health",
+		callback: async () => {
+			await plugin.activateView(VIEW_IDS.health);
+
+			// Re-run the checks if the view was already open
+			plugin.app.workspace
+				.getLeavesOfType(VIEW_IDS.health)
+				.forEach((leaf) => (leaf.view as HealthView).onOpen());
+		},
+	});
+
+	plugin.addCommand({
+		id: "breadcrumbs:find-cycles",
+		name: "Find cycles in field group…",
+		callback: () => {
+			new FieldGroupFuzzySuggester(plugin, (group) => {
+				const cycles = plugin.graph.get_cycles({
+					$or_fields: group.fields,
+				});
+				log.debug(`find-cycles > ${group.label} >`, cycles);
+
+				new GenericModal(plugin.app, (modal) => {
+					modal.titleEl.setText(
+						`Cycles in field group: ${group.label}`,
+					);
+
+					new CycleList({
+						target: modal.contentEl,
+						props: { plugin, cycles },
+					});
+				}).open();
+			}).open();
+		},
+	});
+
+	plugin.addCommand({
+		id: "breadcrumbs:show-relation-path",
+		name: "Show relation path to…",
+		callback: () => {
+			const active_file = get(active_file_store);
+			if (!active_file) return;
+
+			new NoteFuzzySuggester(plugin, (target_id) => {
+				new FieldGroupFuzzySuggester(plugin, (group) => {
+					new GenericModal(plugin.app, (modal) => {
+						modal.titleEl.setText(
+							`Paths from ${active_file.basename} to ${target_id} (${group.label})`,
+						);
+
+						new RelationPaths({
+							target: modal.contentEl,
+							props: {
+								plugin,
+								target_id,
+								fields: group.fields,
+								source_id: active_file.path,
+							},
+						});
+					}).open();
+				}).open();
+			}).open();
+		},
+	});
+
+	plugin.addCommand({
+		id: "breadcrumbs:save-mermaid-diagrams",
+		name: "Save mermaid diagrams in active note as SVG",
+		callback: async () => {
+			const active_file = get(active_file_store);
+			if (!active_file) return;
+
+			const diagrams = Codeblocks.get_in_file(active_file.path)
+				.map((codeblock) => codeblock.component)
+				.filter(
+					(c): c is CodeblockMermaid => c instanceof CodeblockMermaid,
+				);
+
+			if (!diagrams.length) {
+				return new Notice(
+					"No Breadcrumbs mermaid codeblocks in this note",
+				);
+			}
+
+			for (const diagram of diagrams) {
+				await diagram.save_image("svg");
+			}
+		},
+	});
+
+	plugin.addCommand({
+		id: "breadcrumbs:export-graph",
+		name: "Export graph…",
+		callback: () => {
+			new ExportGraphModal(plugin.app, plugin).open();
+		},
+	});
+
+	plugin.addCommand({
+		id: "breadcrumbs:export-canvas",
+		name: "Export note's tree to Canvas…",
+		callback: () => {
+			new ExportCanvasModal(
+				plugin.app,
+				plugin,
+				get(active_file_store)?.path,
+			).open();
+		},
+	});
+
+	plugin.addCommand({
+		id: "breadcrumbs:import-edges",
+		name: "Import edges from graph file…",
+		callback: () => {
+			new ImportEdgesModal(plugin.app, plugin).open();
+		},
+	});
+
 	plugin.addCommand({
 		id: "breadcrumbs:freeze-implied-edges-to-note",
 		name: "Freeze implied edges to note",
@@ -1,5 +1,9 @@
 import type { ExplicitEdgeSource } from "src/const/graph";
-import type { BCEdgeAttributes, BCGraph } from "src/graph/MyMultiGraph";
+import type {
+	BCEdgeAttributes,
+	BCGraph,
+	EdgeIgnoreReason,
+} from "src/graph/MyMultiGraph";
 import type { EdgeFieldGroup } from "src/interfaces/settings";
 
 type GraphStats = {
@@ -27,15 +31,29 @@ type GraphStats = {
 		}>;
 
 		implied_kind: Partial<{
-			[key in Extract<
-				BCEdgeAttributes,
-				{ explicit: false }
-			>["implied_kind"]]: number;
+			[
+				key in Extract<
+					BCEdgeAttributes,
+					{ explicit: false }
+				>["implied_kind"]
+			]: number;
 		}>;
 
 		round: Partial<{
 			[key: string]: number;
 		}>;
+
+		/** Edges that _weren't_ added, because of BC-ignore-in-edges or BC-ignore-out-edges */
+		ignored: Partial<{
+			[key in EdgeIgnoreReason]: number;
+		}>;
+	};
+
+	/** The number of cycles (strongly connected components) in each field group */
+	cycles: {
+		group: Partial<{
+			[key: string]: number;
+		}>;
 	};
 };
 
@@ -55,6 +73,11 @@ export const get_graph_stats = (
 			source: {},
 			explicit: {},
 			implied_kind: {},
+			ignored: {},
+		},
+
+		cycles: {
+			group: {},
 		},
 	};
 
@@ -91,5 +114,15 @@ export const get_graph_stats = (
 		}
 	}
 
+	graph.ignored_edges.forEach(({ reason }) => {
+		stats.edges.ignored[reason] = (stats.edges.ignored[reason] || 0) + 1;
+	});
+
+	data.groups.forEach((group) => {
+		stats.cycles.group[group.label] = graph.get_cycles({
+			$or_fields: group.fields,
+		}).length;
+	});
+
 	return stats;
 };
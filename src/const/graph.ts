@@ -8,11 +8,40 @@ export const EXPLICIT_EDGE_SOURCES = [
 	"date_note",
 	"folder_note",
 	"regex_note",
+	"csv_note",
+	"traverse_note",
 	// TODO: "zetel_note", // Can date_notes do this already?
 ] as const;
 
 export type ExplicitEdgeSource = (typeof EXPLICIT_EDGE_SOURCES)[number];
 
+/** How much of the vault a builder needs to look at when a single note changes.
+ * - "node": Every edge the builder adds comes _out_ of the note that caused it,
+ *     and only depends on that note. So we can rerun it for just the changed note.
+ * - "vault": Edges depend on other notes as well (e.g. tag_note targets, or the list_note items),
+ *     so the builder is rerun over the whole vault, but only if the changed note is involved (see get_rebuild_sources).
+ */
+export const EXPLICIT_EDGE_SOURCE_SCOPES: Record<
+	ExplicitEdgeSource,
+	"node" | "vault"
+> = {
+	typed_link: "node",
+	// NOTE: Not perfect. The unresolved notes in between keep the field of whichever note added them first
+	dendron_note: "node",
+	folder_note: "node",
+	regex_note: "node",
+	dataview_note: "node",
+
+	tag_note: "vault",
+	list_note: "vault",
+	date_note: "vault",
+	johnny_decimal_note: "vault",
+	// NOTE: CSV files aren't notes, and table rows add edges out of other notes
+	csv_note: "vault",
+	// NOTE: The chain runs between the linked notes, not just out of the traverse-note
+	traverse_note: "vault",
+};
+
 export const SIMPLE_EDGE_SORT_FIELDS = [
 	// The order they were added to the graph
 	// Hidden because I don't think anyone really cares about that order
@@ -1 +1,15 @@
 export const ICON_SIZE = 20;
+
+/** A categorical palette (Tableau 10), readable on both light and dark themes */
+export const COLOURS = [
+	"#4e79a7",
+	"#f28e2b",
+	"#e15759",
+	"#76b7b2",
+	"#59a14f",
+	"#edc948",
+	"#b07aa1",
+	"#ff9da7",
+	"#9c755f",
+	"#bab0ac",
+];
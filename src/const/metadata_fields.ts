@@ -23,8 +23,16 @@ export const METADATA_FIELDS_LIST = [
 	"BC-dataview-note-query",
 	"BC-dataview-note-field",
 	//
+	"BC-table-note-field",
+	"BC-table-note-exclude-index",
+	//
+	"BC-traverse-note-field",
+	"BC-traverse-note-depth",
+	//
 	"BC-ignore-in-edges",
 	"BC-ignore-out-edges",
+	"BC-ignore-in-edges-filter",
+	"BC-ignore-out-edges-filter",
 ] as const;
 
 export type MetadataField = (typeof METADATA_FIELDS_LIST)[number];
@@ -87,12 +95,33 @@ export const METADATA_FIELDS_MAP: Record<
 		property_type: "text",
 	},
 	//
+	"BC-table-note-field": {
+		property_type: "text",
+	},
+	"BC-table-note-exclude-index": {
+		property_type: "checkbox",
+	},
+	//
+	"BC-traverse-note-field": {
+		property_type: "text",
+	},
+	"BC-traverse-note-depth": {
+		property_type: "number",
+	},
+	//
 	"BC-ignore-in-edges": {
 		property_type: "checkbox",
 	},
 	"BC-ignore-out-edges": {
 		property_type: "checkbox",
 	},
+	// NOTE: Only ignore some edges, with a filter like `source=tag_note field=down`
+	"BC-ignore-in-edges-filter": {
+		property_type: "text",
+	},
+	"BC-ignore-out-edges-filter": {
+		property_type: "text",
+	},
 };
 
 export const META_ALIAS = {
@@ -118,6 +147,14 @@ export const META_ALIAS = {
 	"dataview-note-query": "BC-dataview-note-query",
 	"dataview-note-field": "BC-dataview-note-field",
 	//
+	"table-note-field": "BC-table-note-field",
+	"table-note-exclude-index": "BC-table-note-exclude-index",
+	//
+	"traverse-note-field": "BC-traverse-note-field",
+	"traverse-note-depth": "BC-traverse-note-depth",
+	//
 	"ignore-in-edges": "BC-ignore-in-edges",
 	"ignore-out-edges": "BC-ignore-out-edges",
+	"ignore-in-edges-filter": "BC-ignore-in-edges-filter",
+	"ignore-out-edges-filter": "BC-ignore-out-edges-filter",
 } satisfies Record<string, MetadataField>;
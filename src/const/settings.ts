@@ -87,6 +87,10 @@ export const DEFAULT_SETTINGS: BreadcrumbsSettings = {
 				close_reversed: true,
 			},
 		],
+
+		inverse: [],
+
+		symmetric: [],
 	},
 
 	explicit_edge_sources: {
@@ -118,6 +122,9 @@ export const DEFAULT_SETTINGS: BreadcrumbsSettings = {
 			default_field: "next",
 			stretch_to_existing: false,
 		},
+		csv_note: {
+			paths: [],
+		},
 	},
 
 	views: {
@@ -164,6 +171,14 @@ export const DEFAULT_SETTINGS: BreadcrumbsSettings = {
 				edge_sort_id: { ...DEFAULT_EDGE_SORT_ID },
 				show_node_options: { ...DEFAULT_SHOW_NODE_OPTIONS },
 			},
+
+			graph: {
+				depth: 2,
+				layout: "force",
+				edge_kind: "all",
+				field_group_labels: ["ups", "downs", "sames"],
+				show_node_options: { ...DEFAULT_SHOW_NODE_OPTIONS },
+			},
 		},
 
 		codeblocks: {
@@ -179,6 +194,8 @@ export const DEFAULT_SETTINGS: BreadcrumbsSettings = {
 				note_save: false,
 				layout_change: false,
 			},
+
+			note_save_debounce_ms: 1000,
 		},
 
 		list_index: {
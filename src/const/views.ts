@@ -2,4 +2,14 @@
 export const VIEW_IDS = {
 	matrix: "bc-matrix-view",
 	tree: "bc-tree-view",
+	graph: "bc-graph-view",
+	health: "bc-health-view",
+};
+
+/** The ids of the elements in exported markmap HTML. Shared between src/utils/markmap.ts, and the viewer script it inlines */
+export const MARKMAP_VIEWER_IDS = {
+	/** The <script> holding the MarkmapViewerData */
+	data: "BC-markmap-data",
+	/** The <svg> to render into */
+	svg: "BC-markmap",
 };
@@ -3,19 +3,39 @@ import type { ExplicitEdgeSource } from "src/const/graph";
 import { log } from "src/logger";
 import { fail, succ } from "src/utils/result";
 import { objectify_edge } from "./objectify_mappers";
-import { is_self_loop } from "./utils";
+import {
+	has_edge_attrs,
+	is_self_loop,
+	matches_edge_ignore_filter,
+	type EdgeAttrFilters,
+} from "./utils";
+
+/** Narrows down which edges BC-ignore-in-edges and BC-ignore-out-edges apply to.
+ * An edge is ignored if it matches _all_ the given keys. So an empty filter ignores every edge.
+ */
+export type EdgeIgnoreFilter = Partial<{
+	/** Only ignore edges added by one of these explicit sources */
+	sources: ExplicitEdgeSource[];
+	/** Only ignore edges with one of these fields */
+	fields: string[];
+	/** Only ignore explicit (true) or implied (false) edges */
+	explicit: boolean;
+}>;
+
+export type ImpliedRelationKind = "transitive" | "inverse" | "symmetric";
+
+export type EdgeIgnoreReason = "ignore_in_edges" | "ignore_out_edges";
 
 export type BCNodeAttributes = {
 	/** .md file exists  */
 	resolved: boolean;
 	aliases?: string[];
-	// TODO: All a narrower ignore filter, to ignore only edges from certain sources, for example
-	// 	source=list-note
-	// The syntax can allow multiple values: source=list-note source=dataview (parse as URLSearchParams)
-	/** If true, don't add any edges _to_ this node */
-	ignore_in_edges?: true;
-	/** If true, don't add any edges _from_ this node */
-	ignore_out_edges?: true;
+	/** The note's tags, each starting with a # */
+	tags?: string[];
+	/** Don't add edges _to_ this node that match the filter */
+	ignore_in_edges?: EdgeIgnoreFilter;
+	/** Don't add edges _from_ this node that match the filter */
+	ignore_out_edges?: EdgeIgnoreFilter;
 };
 
 export const EDGE_ATTRIBUTES = [
@@ -37,7 +57,7 @@ export type BCEdgeAttributes = {
 	  }
 	| {
 			explicit: false;
-			implied_kind: `transitive:${string}`;
+			implied_kind: `${ImpliedRelationKind}:${string}`;
 			/** Which round of implied_building this edge got added in.
 			 * Starts at 1 - you can think of real edges as being added in round 0.
 			 * The way {@link BCGraph.safe_add_directed_edge} works, currently only the first instance of an edge will be added.
@@ -58,6 +78,12 @@ export type BCEdge = {
 };
 
 export class BCGraph extends MultiGraph<BCNodeAttributes, BCEdgeAttributes> {
+	/** The edges that weren't added because of an ignore filter, by edge_id */
+	ignored_edges = new Map<
+		string,
+		{ source_id: string; target_id: string; reason: EdgeIgnoreReason }
+	>();
+
 	constructor(
 		/** Generally only for testing purposes, to quickly init a graph */
 		input?: {
@@ -189,26 +215,44 @@ export class BCGraph extends MultiGraph<BCNodeAttributes, BCEdgeAttributes> {
 
 	/** Return true if the edge was added.
 	 * Won't be added if it already exists (based on it's {@link this.make_edge_id}),
-	 * 	or if it's target_node has ingore_in_edges */
+	 * 	or if it matches the ignore_in_edges of its target node (or the ignore_out_edges of its source node) */
 	safe_add_directed_edge = (
 		source_id: string,
 		target_id: string,
 		attr: BCEdgeAttributes,
 	) => {
-		if (this.getNodeAttribute(target_id, "ignore_in_edges")) {
-			log.debug(
-				`ignore-in-edge > ${source_id} -${attr.field}-> ${target_id}`,
-			);
-			return false;
-		} else if (this.getNodeAttribute(source_id, "ignore_out_edges")) {
+		const edge_id = this.make_edge_id(source_id, target_id, attr);
+
+		let reason: EdgeIgnoreReason | undefined;
+		if (
+			matches_edge_ignore_filter(
+				attr,
+				this.getNodeAttribute(target_id, "ignore_in_edges"),
+			)
+		) {
+			reason = "ignore_in_edges";
+		} else if (
+			matches_edge_ignore_filter(
+				attr,
+				this.getNodeAttribute(source_id, "ignore_out_edges"),
+			)
+		) {
+			reason = "ignore_out_edges";
+		}
+
+		if (reason) {
 			log.debug(
-				`ignore-out-edge > ${source_id} -${attr.field}-> ${target_id}`,
+				`${reason} > ${source_id} -${attr.field}-> ${target_id}`,
+				this.getNodeAttribute(
+					reason === "ignore_in_edges" ? target_id : source_id,
+					reason,
+				),
 			);
+
+			this.ignored_edges.set(edge_id, { source_id, target_id, reason });
 			return false;
 		}
 
-		const edge_id = this.make_edge_id(source_id, target_id, attr);
-
 		if (!this.hasDirectedEdge(edge_id)) {
 			this.addDirectedEdgeWithKey(edge_id, source_id, target_id, attr);
 			return true;
@@ -232,4 +276,108 @@ export class BCGraph extends MultiGraph<BCNodeAttributes, BCEdgeAttributes> {
 				? this.mapOutEdges(node_id, objectify_edge)
 				: []
 			: this.mapOutEdges(objectify_edge);
+
+	/** Find the strongly connected components of the graph, only following edges that match the attrs (e.g. a field group).
+	 * Only the components that contain a cycle are returned: more than one node, or a single node with a self-loop.
+	 * Uses an iterative version of Tarjan's algorithm, so deep hierarchies don't overflow the call stack.
+	 */
+	get_cycles = (attrs?: EdgeAttrFilters) => {
+		const cycles: string[][] = [];
+
+		const index = new Map<string, number>();
+		const low_link = new Map<string, number>();
+		const stack: string[] = [];
+		const on_stack = new Set<string>();
+		let next_index = 0;
+
+		const get_neighbours = (node_id: string) =>
+			this.get_out_edges(node_id)
+				.filter((edge) => has_edge_attrs(edge, attrs))
+				.map((edge) => edge.target_id);
+
+		this.forEachNode((root_id) => {
+			if (index.has(root_id)) return;
+
+			// Each frame is a node we're visiting, and how far through its neighbours we are
+			const frames: {
+				node_id: string;
+				neighbours: string[];
+				i: number;
+			}[] = [];
+
+			const visit = (node_id: string) => {
+				index.set(node_id, next_index);
+				low_link.set(node_id, next_index);
+				next_index++;
+
+				stack.push(node_id);
+				on_stack.add(node_id);
+
+				frames.push({
+					node_id,
+					neighbours: get_neighbours(node_id),
+					i: 0,
+				});
+			};
+
+			visit(root_id);
+
+			while (frames.length) {
+				const frame = frames[frames.length - 1];
+
+				if (frame.i < frame.neighbours.length) {
+					const neighbour_id = frame.neighbours[frame.i++];
+
+					if (!index.has(neighbour_id)) {
+						visit(neighbour_id);
+					} else if (on_stack.has(neighbour_id)) {
+						low_link.set(
+							frame.node_id,
+							Math.min(
+								low_link.get(frame.node_id)!,
+								index.get(neighbour_id)!,
+							),
+						);
+					}
+
+					continue;
+				}
+
+				// Done with all the neighbours, so pass the low_link back up to the parent
+				frames.pop();
+
+				const parent = frames.at(-1);
+				if (parent) {
+					low_link.set(
+						parent.node_id,
+						Math.min(
+							low_link.get(parent.node_id)!,
+							low_link.get(frame.node_id)!,
+						),
+					);
+				}
+
+				// frame.node_id is the root of a component
+				if (low_link.get(frame.node_id) === index.get(frame.node_id)) {
+					const component: string[] = [];
+
+					let node_id: string;
+					do {
+						node_id = stack.pop()!;
+						on_stack.delete(node_id);
+						component.push(node_id);
+					} while (node_id !== frame.node_id);
+
+					if (
+						component.length > 1 ||
+						frame.neighbours.includes(frame.node_id)
+					) {
+						cycles.push(component.reverse());
+					}
+				}
+			}
+		});
+
+		return cycles;
+	};
 }
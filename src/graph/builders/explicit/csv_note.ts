@@ -0,0 +1,175 @@
+import { META_ALIAS } from "src/const/metadata_fields";
+import type { BCGraph } from "src/graph/MyMultiGraph";
+import type {
+	BreadcrumbsError,
+	ExplicitEdgeBuilder,
+} from "src/interfaces/graph";
+import type BreadcrumbsPlugin from "src/main";
+import { resolve_relative_target_path } from "src/utils/obsidian";
+import { fail, graph_build_fail, succ } from "src/utils/result";
+import { TableNote } from "src/utils/table_note";
+
+const get_table_note_info = (
+	plugin: BreadcrumbsPlugin,
+	metadata: Record<string, unknown> | undefined,
+	path: string,
+) => {
+	if (!metadata) return fail(undefined);
+
+	const field = metadata[META_ALIAS["table-note-field"]];
+	if (!field) {
+		return fail(undefined);
+	} else if (typeof field !== "string") {
+		return graph_build_fail({
+			path,
+			code: "invalid_field_value",
+			message: `table-note-field is not a string: '${field}'`,
+		});
+	} else if (!plugin.settings.edge_fields.find((f) => f.label === field)) {
+		return graph_build_fail({
+			path,
+			code: "invalid_field_value",
+			message: `table-note-field is not a valid BC field: '${field}'`,
+		});
+	}
+
+	const exclude_index = Boolean(
+		metadata[META_ALIAS["table-note-exclude-index"]],
+	);
+
+	return succ({ field, exclude_index });
+};
+
+/** Resolve the (relative) paths of an edge, and add it to the graph */
+const add_table_edge = (
+	graph: BCGraph,
+	plugin: BreadcrumbsPlugin,
+	table_path: string,
+	edge: { source_path: string; target_path: string; field: string },
+) => {
+	const [source_path, target_path] = [edge.source_path, edge.target_path].map(
+		(link_path) => {
+			const [path, file] = resolve_relative_target_path(
+				plugin.app,
+				link_path,
+				table_path,
+			);
+
+			if (!file) {
+				graph.safe_add_node(path, { resolved: false });
+			}
+
+			return path;
+		},
+	);
+
+	graph.safe_add_directed_edge(source_path, target_path, {
+		explicit: true,
+		source: "csv_note",
+		field: edge.field,
+	});
+};
+
+/** Add edges from the configured CSV files, as well as the markdown tables in table-notes.
+ * In both cases, the first column holds the source notes, and the rest are headed by edge fields.
+ */
+export const _add_explicit_edges_csv_note: ExplicitEdgeBuilder = async (
+	graph,
+	plugin,
+	all_files,
+) => {
+	const errors: BreadcrumbsError[] = [];
+
+	const field_labels = new Set(
+		plugin.settings.edge_fields.map((f) => f.label),
+	);
+
+	/// CSV files
+	for (const csv_path of plugin.settings.explicit_edge_sources.csv_note
+		.paths) {
+		const csv_file = plugin.app.vault.getFileByPath(csv_path);
+		if (!csv_file) {
+			errors.push({
+				path: csv_path,
+				code: "invalid_setting_value",
+				message: `CSV file not found: '${csv_path}'`,
+			});
+			continue;
+		}
+
+		const table = TableNote.get_edges(
+			TableNote.parse_csv(await plugin.app.vault.cachedRead(csv_file)),
+			csv_path,
+			field_labels,
+		);
+
+		errors.push(...table.errors);
+		table.edges.forEach((edge) =>
+			add_table_edge(graph, plugin, csv_path, edge),
+		);
+	}
+
+	/// Table notes
+	const table_notes: {
+		path: string;
+		info: Extract<
+			ReturnType<typeof get_table_note_info>,
+			{ ok: true }
+		>["data"];
+	}[] = [];
+
+	all_files.obsidian?.forEach(({ file, cache }) => {
+		const info = get_table_note_info(plugin, cache?.frontmatter, file.path);
+		if (!info.ok) {
+			if (info.error) errors.push(info.error);
+			return;
+		}
+
+		table_notes.push({ info: info.data, path: file.path });
+	});
+
+	all_files.dataview?.forEach((page) => {
+		const { file } = page;
+		const info = get_table_note_info(plugin, page, file.path);
+		if (!info.ok) {
+			if (info.error) errors.push(info.error);
+			return;
+		}
+
+		table_notes.push({ info: info.data, path: file.path });
+	});
+
+	for (const table_note of table_notes) {
+		const table_note_file = plugin.app.vault.getFileByPath(table_note.path);
+		if (!table_note_file) continue;
+
+		const content = await plugin.app.vault.cachedRead(table_note_file);
+
+		TableNote.parse_markdown_tables(content).forEach((rows) => {
+			const table = TableNote.get_edges(
+				rows,
+				table_note.path,
+				field_labels,
+			);
+
+			errors.push(...table.errors);
+
+			// Like list-notes, the table-note points to each of the source notes in its tables
+			if (!table_note.info.exclude_index) {
+				table.sources.forEach((source_path) =>
+					add_table_edge(graph, plugin, table_note.path, {
+						source_path: table_note.path,
+						target_path: source_path,
+						field: table_note.info.field,
+					}),
+				);
+			}
+
+			table.edges.forEach((edge) =>
+				add_table_edge(graph, plugin, table_note.path, edge),
+			);
+		});
+	}
+
+	return { errors };
+};
@@ -28,3 +28,22 @@ export const get_all_files = (app: App): AllFiles => {
 		};
 	}
 };
+
+/** The same shape as get_all_files, but only containing the given file */
+export const get_single_file = (app: App, file: TFile): AllFiles => {
+	if (dataview_plugin.is_enabled(app)) {
+		const page = dataview_plugin.get_api()?.page(file.path) as
+			| IDataview.Page
+			| undefined;
+
+		return {
+			obsidian: null,
+			dataview: page ? [page] : [],
+		};
+	} else {
+		return {
+			obsidian: [{ file, cache: app.metadataCache.getFileCache(file) }],
+			dataview: null,
+		};
+	}
+};
@@ -1,5 +1,6 @@
 import type { ExplicitEdgeSource } from "src/const/graph";
 import type { ExplicitEdgeBuilder } from "src/interfaces/graph";
+import { _add_explicit_edges_csv_note } from "./csv_note";
 import { _add_explicit_edges_dataview_note } from "./dataview_note";
 import { _add_explicit_edges_date_note } from "./date_note";
 import { _add_explicit_edges_dendron_note } from "./dendron_note";
@@ -8,6 +9,7 @@ import { _add_explicit_edges_johnny_decimal_note } from "./johnny_decimal_note";
 import { _add_explicit_edges_list_note } from "./list_note";
 import { _add_explicit_edges_regex_note } from "./regex_note";
 import { _add_explicit_edges_tag_note } from "./tag_note";
+import { _add_explicit_edges_traverse_note } from "./traverse_note";
 import { _add_explicit_edges_typed_link } from "./typed_link";
 
 export const add_explicit_edges: Record<
@@ -19,6 +21,8 @@ export const add_explicit_edges: Record<
 	date_note: _add_explicit_edges_date_note,
 	typed_link: _add_explicit_edges_typed_link,
 	regex_note: _add_explicit_edges_regex_note,
+	csv_note: _add_explicit_edges_csv_note,
+	traverse_note: _add_explicit_edges_traverse_note,
 	folder_note: _add_explicit_edges_folder_note,
 	dendron_note: _add_explicit_edges_dendron_note,
 	dataview_note: _add_explicit_edges_dataview_note,
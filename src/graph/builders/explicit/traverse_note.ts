@@ -0,0 +1,123 @@
+import { META_ALIAS } from "src/const/metadata_fields";
+import type {
+	BreadcrumbsError,
+	ExplicitEdgeBuilder,
+} from "src/interfaces/graph";
+import type BreadcrumbsPlugin from "src/main";
+import { resolve_relative_target_path } from "src/utils/obsidian";
+import { fail, graph_build_fail, succ } from "src/utils/result";
+import { TraverseNote } from "src/utils/traverse_note";
+
+const get_traverse_note_info = (
+	plugin: BreadcrumbsPlugin,
+	metadata: Record<string, unknown> | undefined,
+	path: string,
+) => {
+	if (!metadata) return fail(undefined);
+
+	const field = metadata[META_ALIAS["traverse-note-field"]];
+	if (!field) {
+		return fail(undefined);
+	} else if (typeof field !== "string") {
+		return graph_build_fail({
+			path,
+			code: "invalid_field_value",
+			message: `traverse-note-field is not a string: '${field}'`,
+		});
+	} else if (!plugin.settings.edge_fields.find((f) => f.label === field)) {
+		return graph_build_fail({
+			path,
+			code: "invalid_field_value",
+			message: `traverse-note-field is not a valid BC field: '${field}'`,
+		});
+	}
+
+	// Default to only the traverse-note's own links
+	const depth = metadata[META_ALIAS["traverse-note-depth"]] ?? 1;
+	if (typeof depth !== "number" || !Number.isInteger(depth) || depth < 1) {
+		return graph_build_fail({
+			path,
+			code: "invalid_field_value",
+			message: `traverse-note-depth is not a positive integer: '${depth}'`,
+		});
+	}
+
+	return succ({ field, depth });
+};
+
+/** Resolve the links in the body of a note, in the order they appear */
+const get_body_links = (plugin: BreadcrumbsPlugin, path: string) =>
+	(plugin.app.metadataCache.getCache(path)?.links ?? [])
+		// NOTE: Subpath-only links (e.g. [[#heading]]) point back to the note itself
+		.map((link) => link.link.split("#")[0])
+		.filter(Boolean)
+		.map((link_path) => {
+			const [target_path, target_file] = resolve_relative_target_path(
+				plugin.app,
+				link_path,
+				path,
+			);
+
+			return { path: target_path, resolved: !!target_file };
+		});
+
+/** Turn the body links of a traverse-note into a chain of edges. See TraverseNote.get_edges */
+export const _add_explicit_edges_traverse_note: ExplicitEdgeBuilder = (
+	graph,
+	plugin,
+	all_files,
+) => {
+	const errors: BreadcrumbsError[] = [];
+
+	const traverse_notes: {
+		path: string;
+		info: Extract<
+			ReturnType<typeof get_traverse_note_info>,
+			{ ok: true }
+		>["data"];
+	}[] = [];
+
+	all_files.obsidian?.forEach(({ file, cache }) => {
+		const info = get_traverse_note_info(
+			plugin,
+			cache?.frontmatter,
+			file.path,
+		);
+		if (!info.ok) {
+			if (info.error) errors.push(info.error);
+			return;
+		}
+
+		traverse_notes.push({ info: info.data, path: file.path });
+	});
+
+	all_files.dataview?.forEach((page) => {
+		const { file } = page;
+		const info = get_traverse_note_info(plugin, page, file.path);
+		if (!info.ok) {
+			if (info.error) errors.push(info.error);
+			return;
+		}
+
+		traverse_notes.push({ info: info.data, path: file.path });
+	});
+
+	traverse_notes.forEach((traverse_note) => {
+		TraverseNote.get_edges(
+			{ path: traverse_note.path, ...traverse_note.info },
+			(path) => get_body_links(plugin, path),
+		).forEach((edge) => {
+			if (!edge.target_resolved) {
+				graph.safe_add_node(edge.target_path, { resolved: false });
+			}
+
+			graph.safe_add_directed_edge(edge.source_path, edge.target_path, {
+				explicit: true,
+				source: "traverse_note",
+				field: edge.field,
+			});
+		});
+	});
+
+	return { errors };
+};
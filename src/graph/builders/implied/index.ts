@@ -0,0 +1,161 @@
+import type { BCGraph, ImpliedRelationKind } from "src/graph/MyMultiGraph";
+import type {
+	BreadcrumbsError,
+	EdgeToAdd,
+	ImpliedEdgeBuilderPlugin,
+	ImpliedEdgeBuilderResults,
+} from "src/interfaces/graph";
+import type { ImpliedRelationCondition } from "src/interfaces/settings";
+import { matches_implied_relation_conditions } from "src/utils/implied_relations";
+import { _add_implied_edges_inverse } from "./inverse";
+import { _add_implied_edges_symmetric } from "./symmetric";
+import { _add_implied_edges_transitive } from "./transitive";
+
+/** Run the rounds of implied edge building.
+ * If start_nodes are given, only chains starting from those nodes are considered.
+ *
+ * Along with the errors, returns every edge that was tried, in order.
+ *   Replaying them with safe_add_directed_edge on a copy of the original graph gives the same result (including ignored_edges).
+ *   This is how the edges built in the worker get back to the main thread.
+ */
+export const add_implied_edges = (
+	graph: BCGraph,
+	plugin: ImpliedEdgeBuilderPlugin,
+	/** The fields of the edges already in the graph that _could_ start a chain */
+	added_fields: Set<string>,
+	start_nodes?: Set<string>,
+	options?: {
+		/** Called at the start of each round */
+		on_round?: (round: number, max_rounds: number) => void;
+	},
+) => {
+	const { transitive, inverse, symmetric } =
+		plugin.settings.implied_relations;
+
+	const max_implied_relationship_rounds = Math.max(
+		0,
+		...[...transitive, ...inverse, ...symmetric].map((imp) => imp.rounds),
+	);
+
+	const implied_edge_results: Record<
+		ImpliedRelationKind,
+		BreadcrumbsError[]
+	> = { transitive: [], inverse: [], symmetric: [] };
+
+	const tried_edges: EdgeToAdd[] = [];
+
+	for (let round = 1; round <= max_implied_relationship_rounds; round++) {
+		options?.on_round?.(round, max_implied_relationship_rounds);
+
+		const edges: EdgeToAdd[] = [];
+
+		/** Keep the edges a rule implied, if the nodes at either end meet its conditions */
+		const add_rule_results = (
+			kind: ImpliedRelationKind,
+			rule: { conditions?: ImpliedRelationCondition[] },
+			result: ImpliedEdgeBuilderResults,
+		) => {
+			implied_edge_results[kind].push(...result.errors);
+
+			result.edges.forEach((edge) => {
+				if (
+					matches_implied_relation_conditions(
+						{
+							source: graph.getNodeAttributes(edge.source_id),
+							target: graph.getNodeAttributes(edge.target_id),
+						},
+						rule.conditions,
+					)
+				) {
+					edges.push(edge);
+				}
+			});
+		};
+
+		transitive.forEach((rule) => {
+			// If none of the fields added in the previous round are in this rule, skip it
+			// Chain items without a field filter could match an edge of any field
+			if (
+				!rule.chain.some((attr) =>
+					attr.field !== undefined
+						? added_fields.has(attr.field)
+						: attr.$or_fields
+							? attr.$or_fields.some((field) =>
+									added_fields.has(field),
+								)
+							: added_fields.size > 0,
+				)
+			) {
+				return;
+			}
+
+			add_rule_results(
+				"transitive",
+				rule,
+				_add_implied_edges_transitive(
+					graph,
+					plugin,
+					rule,
+					round,
+					start_nodes,
+				),
+			);
+		});
+
+		inverse.forEach((rule) => {
+			if (
+				!added_fields.has(rule.field) &&
+				!added_fields.has(rule.inverse_field)
+			) {
+				return;
+			}
+
+			add_rule_results(
+				"inverse",
+				rule,
+				_add_implied_edges_inverse(
+					graph,
+					plugin,
+					rule,
+					round,
+					start_nodes,
+				),
+			);
+		});
+
+		symmetric.forEach((rule) => {
+			if (!added_fields.has(rule.field)) return;
+
+			add_rule_results(
+				"symmetric",
+				rule,
+				_add_implied_edges_symmetric(
+					graph,
+					plugin,
+					rule,
+					round,
+					start_nodes,
+				),
+			);
+		});
+
+		// We don't need the previous fields anymore
+		added_fields.clear();
+
+		// PERF: Break if no edges were added. We've reached a fixed point
+		if (edges.length === 0) break;
+		else {
+			edges.forEach((edge) => {
+				tried_edges.push(edge);
+
+				graph.safe_add_directed_edge(
+					edge.source_id,
+					edge.target_id,
+					edge.attr,
+				) && added_fields.add(edge.attr.field);
+			});
+		}
+	}
+
+	return { errors: implied_edge_results, edges: tried_edges };
+};
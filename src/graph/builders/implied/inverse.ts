@@ -0,0 +1,69 @@
+import type { BCEdgeAttributes, BCGraph } from "src/graph/MyMultiGraph";
+import type {
+	ImpliedEdgeBuilderPlugin,
+	ImpliedEdgeBuilderResults,
+} from "src/interfaces/graph";
+import type { BreadcrumbsSettings } from "src/interfaces/settings";
+import { get_inverse_rule_name } from "src/utils/implied_relations";
+
+/** A single rule covers both directions of the pair:
+ * A -field-> B implies B -inverse_field-> A, and A -inverse_field-> B implies B -field-> A
+ */
+export const _add_implied_edges_inverse = (
+	graph: BCGraph,
+	plugin: ImpliedEdgeBuilderPlugin,
+	rule: BreadcrumbsSettings["implied_relations"]["inverse"][number],
+	round: number,
+	/** Only look at edges touching these nodes. Defaults to all edges in the graph */
+	start_nodes?: Iterable<string>,
+) => {
+	const results: ImpliedEdgeBuilderResults = { edges: [], errors: [] };
+
+	if (rule.rounds < round) {
+		return results;
+	}
+
+	for (const key of ["field", "inverse_field"] as const) {
+		if (!plugin.settings.edge_fields.find((f) => f.label === rule[key])) {
+			results.errors.push({
+				code: "invalid_setting_value",
+				path: `implied_relations.inverse[].${key}`,
+				message: `${key} is not a valid BC field: '${rule[key]}'`,
+			});
+		}
+	}
+	if (results.errors.length) return results;
+
+	const implied_kind = `inverse:${get_inverse_rule_name(rule)}` as const;
+
+	const handle_edge = (
+		_edge_id: string,
+		attr: BCEdgeAttributes,
+		source_id: string,
+		target_id: string,
+	) => {
+		const field =
+			attr.field === rule.field
+				? rule.inverse_field
+				: attr.field === rule.inverse_field
+					? rule.field
+					: undefined;
+		if (!field) return;
+
+		results.edges.push({
+			source_id: target_id,
+			target_id: source_id,
+			attr: { round, implied_kind, explicit: false, field },
+		});
+	};
+
+	if (start_nodes) {
+		for (const start_node of start_nodes) {
+			graph.forEachEdge(start_node, handle_edge);
+		}
+	} else {
+		graph.forEachEdge(handle_edge);
+	}
+
+	return results;
+};
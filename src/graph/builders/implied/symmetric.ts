@@ -0,0 +1,60 @@
+import type { BCEdgeAttributes, BCGraph } from "src/graph/MyMultiGraph";
+import type {
+	ImpliedEdgeBuilderPlugin,
+	ImpliedEdgeBuilderResults,
+} from "src/interfaces/graph";
+import type { BreadcrumbsSettings } from "src/interfaces/settings";
+import { get_symmetric_rule_name } from "src/utils/implied_relations";
+
+/** A -field-> B implies B -field-> A */
+export const _add_implied_edges_symmetric = (
+	graph: BCGraph,
+	plugin: ImpliedEdgeBuilderPlugin,
+	rule: BreadcrumbsSettings["implied_relations"]["symmetric"][number],
+	round: number,
+	/** Only look at edges touching these nodes. Defaults to all edges in the graph */
+	start_nodes?: Iterable<string>,
+) => {
+	const results: ImpliedEdgeBuilderResults = { edges: [], errors: [] };
+
+	if (rule.rounds < round) {
+		return results;
+	} else if (
+		!plugin.settings.edge_fields.find((f) => f.label === rule.field)
+	) {
+		results.errors.push({
+			code: "invalid_setting_value",
+			path: "implied_relations.symmetric[].field",
+			message: `field is not a valid BC field: '${rule.field}'`,
+		});
+
+		return results;
+	}
+
+	const implied_kind = `symmetric:${get_symmetric_rule_name(rule)}` as const;
+
+	const handle_edge = (
+		_edge_id: string,
+		attr: BCEdgeAttributes,
+		source_id: string,
+		target_id: string,
+	) => {
+		if (attr.field !== rule.field) return;
+
+		results.edges.push({
+			source_id: target_id,
+			target_id: source_id,
+			attr: { round, implied_kind, explicit: false, field: rule.field },
+		});
+	};
+
+	if (start_nodes) {
+		for (const start_node of start_nodes) {
+			graph.forEachEdge(start_node, handle_edge);
+		}
+	} else {
+		graph.forEachEdge(handle_edge);
+	}
+
+	return results;
+};
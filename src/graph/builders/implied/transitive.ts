@@ -1,15 +1,19 @@
 import type { BCGraph } from "src/graph/MyMultiGraph";
 import { Traverse } from "src/graph/traverse";
-import type { ImpliedEdgeBuilderResults } from "src/interfaces/graph";
+import type {
+	ImpliedEdgeBuilderPlugin,
+	ImpliedEdgeBuilderResults,
+} from "src/interfaces/graph";
 import type { BreadcrumbsSettings } from "src/interfaces/settings";
-import type BreadcrumbsPlugin from "src/main";
 import { get_transitive_rule_name } from "src/utils/transitive_rules";
 
 export const _add_implied_edges_transitive = (
 	graph: BCGraph,
-	plugin: BreadcrumbsPlugin,
+	plugin: ImpliedEdgeBuilderPlugin,
 	rule: BreadcrumbsSettings["implied_relations"]["transitive"][number],
 	round: number,
+	/** Only look for chains starting at these nodes. Defaults to all nodes in the graph */
+	start_nodes?: Iterable<string>,
 ) => {
 	const results: ImpliedEdgeBuilderResults = { edges: [], errors: [] };
 
@@ -30,13 +34,18 @@ export const _add_implied_edges_transitive = (
 	const implied_kind =
 		`transitive:${get_transitive_rule_name(rule)}` as const;
 
-	graph.forEachNode((start_node) => {
+	const handle_start_node = (start_node: string) => {
 		Traverse.get_transitive_chain_target_ids(
 			graph,
 			start_node,
 			rule.chain,
-			(item) => item.edge.target_id !== start_node,
+			{
+				allow_revisits: rule.allow_revisits,
+			},
 		).forEach((end_node) => {
+			// Even if the chain can revisit nodes, don't close it back onto the start
+			if (end_node === start_node) return;
+
 			const [source_id, target_id] = rule.close_reversed
 				? [end_node, start_node]
 				: [start_node, end_node];
@@ -52,7 +61,13 @@ export const _add_implied_edges_transitive = (
 				},
 			});
 		});
-	});
+	};
+
+	if (start_nodes) {
+		for (const start_node of start_nodes) handle_start_node(start_node);
+	} else {
+		graph.forEachNode(handle_start_node);
+	}
 
 	return results;
 };
@@ -0,0 +1,35 @@
+// NOTE: This is the entry point of the implied edges Web Worker, bundled on its own by esbuild.config.mjs.
+//   So nothing it imports can touch obsidian, or the DOM
+import { BCGraph } from "src/graph/MyMultiGraph";
+import { add_implied_edges } from ".";
+import type {
+	ImpliedEdgesWorkerRequest,
+	ImpliedEdgesWorkerResponse,
+} from "./worker_client";
+
+const ctx = self as unknown as Worker;
+
+const post = (message: ImpliedEdgesWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<ImpliedEdgesWorkerRequest>) => {
+	try {
+		const graph = new BCGraph();
+		graph.import(event.data.graph);
+		graph.ignored_edges = new Map(event.data.ignored_edges);
+
+		const { edges, errors } = add_implied_edges(
+			graph,
+			{ settings: event.data.settings },
+			new Set(event.data.added_fields),
+			undefined,
+			{
+				on_round: (round, max_rounds) =>
+					post({ type: "progress", round, max_rounds }),
+			},
+		);
+
+		post({ type: "done", edges, errors });
+	} catch (error) {
+		post({ type: "error", message: String(error) });
+	}
+};
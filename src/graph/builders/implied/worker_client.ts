@@ -0,0 +1,124 @@
+import type { BCGraph, ImpliedRelationKind } from "src/graph/MyMultiGraph";
+import type {
+	BreadcrumbsError,
+	EdgeToAdd,
+	ImpliedEdgeBuilderPlugin,
+} from "src/interfaces/graph";
+import type { Result } from "src/interfaces/result";
+import { log } from "src/logger";
+import { fail, succ } from "src/utils/result";
+import worker_code from "./worker?worker";
+
+export type ImpliedEdgesWorkerRequest = {
+	graph: ReturnType<BCGraph["export"]>;
+	ignored_edges: [
+		string,
+		BCGraph["ignored_edges"] extends Map<string, infer V> ? V : never,
+	][];
+	settings: ImpliedEdgeBuilderPlugin["settings"];
+	added_fields: string[];
+};
+
+export type ImpliedEdgesWorkerResult = {
+	/** Every edge tried, in order. See add_implied_edges */
+	edges: EdgeToAdd[];
+	errors: Record<ImpliedRelationKind, BreadcrumbsError[]>;
+};
+
+export type ImpliedEdgesWorkerResponse =
+	| { type: "progress"; round: number; max_rounds: number }
+	| ({ type: "done" } & ImpliedEdgesWorkerResult)
+	| { type: "error"; message: string };
+
+/** Created once, and reused for every worker */
+let worker_url: string | null = null;
+
+/** The run in progress. Starting a new one cancels it */
+let current_run: { cancel: () => void } | null = null;
+
+/** Build the implied edges of a (copy of the) graph in a Web Worker, so the main thread doesn't freeze.
+ * The graph passed in isn't changed. Replay the returned edges onto it with safe_add_directed_edge.
+ *
+ * Resolves with fail("cancelled") if another run starts before this one finishes,
+ *   or fail("failed") if the worker couldn't be started, or threw.
+ */
+export const run_implied_edges_worker = (
+	graph: BCGraph,
+	plugin: ImpliedEdgeBuilderPlugin,
+	added_fields: Set<string>,
+	options?: {
+		on_round?: (round: number, max_rounds: number) => void;
+	},
+) => {
+	current_run?.cancel();
+
+	let worker: Worker;
+	try {
+		worker_url ??= URL.createObjectURL(
+			new Blob([worker_code], { type: "text/javascript" }),
+		);
+
+		worker = new Worker(worker_url);
+	} catch (error) {
+		log.error("run_implied_edges_worker > can't start worker >", error);
+		return Promise.resolve(fail("failed" as const));
+	}
+
+	return new Promise<
+		Result<ImpliedEdgesWorkerResult, "cancelled" | "failed">
+	>((resolve) => {
+		const run = {
+			cancel: () => finish(fail("cancelled")),
+		};
+
+		const finish = (result: Parameters<typeof resolve>[0]) => {
+			worker.terminate();
+			if (current_run === run) current_run = null;
+
+			resolve(result);
+		};
+
+		current_run = run;
+
+		worker.onmessage = (
+			event: MessageEvent<ImpliedEdgesWorkerResponse>,
+		) => {
+			const message = event.data;
+
+			switch (message.type) {
+				case "progress": {
+					options?.on_round?.(message.round, message.max_rounds);
+					break;
+				}
+
+				case "done": {
+					finish(
+						succ({ edges: message.edges, errors: message.errors }),
+					);
+					break;
+				}
+
+				case "error": {
+					log.error("implied edges worker >", message.message);
+					finish(fail("failed"));
+					break;
+				}
+			}
+		};
+
+		worker.onerror = (event) => {
+			log.error("implied edges worker >", event.message);
+			finish(fail("failed"));
+		};
+
+		worker.postMessage({
+			graph: graph.export(),
+			ignored_edges: [...graph.ignored_edges.entries()],
+			settings: {
+				edge_fields: plugin.settings.edge_fields,
+				implied_relations: plugin.settings.implied_relations,
+			},
+			added_fields: [...added_fields],
+		} satisfies ImpliedEdgesWorkerRequest);
+	});
+};
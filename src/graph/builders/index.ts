@@ -1,13 +1,62 @@
-import { EXPLICIT_EDGE_SOURCES } from "src/const/graph";
+import type { TFile } from "obsidian";
+import {
+	EXPLICIT_EDGE_SOURCES,
+	EXPLICIT_EDGE_SOURCE_SCOPES,
+} from "src/const/graph";
 import { META_ALIAS } from "src/const/metadata_fields";
-import type { BreadcrumbsError, EdgeToAdd } from "src/interfaces/graph";
 import { log } from "src/logger";
 import type BreadcrumbsPlugin from "src/main";
+import { ensure_starts_with } from "src/utils/strings";
+import { fail, succ } from "src/utils/result";
 import { Timer } from "src/utils/timer";
-import { BCGraph, type BCNodeAttributes } from "../MyMultiGraph";
+import { BCGraph, type BCEdge, type BCNodeAttributes } from "../MyMultiGraph";
+import { parse_edge_ignore_filter } from "../utils";
 import { add_explicit_edges } from "./explicit";
-import { get_all_files, type AllFiles } from "./explicit/files";
-import { _add_implied_edges_transitive } from "./implied/transitive";
+import {
+	get_all_files,
+	get_single_file,
+	type AllFiles,
+} from "./explicit/files";
+import { add_implied_edges } from "./implied";
+import { run_implied_edges_worker } from "./implied/worker_client";
+import { apply_explicit_edge_diff, get_rebuild_sources } from "./node_rebuild";
+
+/** Add the node, or replace its attributes if it already exists (on a node-level rebuild) */
+const set_initial_node = (
+	graph: BCGraph,
+	path: string,
+	node_attr: BCNodeAttributes,
+) => {
+	if (graph.hasNode(path)) {
+		graph.replaceNodeAttributes(path, node_attr);
+	} else {
+		graph.addNode(path, node_attr);
+	}
+};
+
+/** Parse a note's BC-ignore-(in|out)-edges checkbox, or else its BC-ignore-(in|out)-edges-filter, onto its node_attr */
+const add_ignore_filters = (
+	node_attr: BCNodeAttributes,
+	metadata: Record<string, unknown> | undefined,
+	path: string,
+) => {
+	(["in", "out"] as const).forEach((dir) => {
+		// The checkbox ignores everything, so it wins over the filter
+		const filter = [
+			META_ALIAS[`ignore-${dir}-edges`],
+			META_ALIAS[`ignore-${dir}-edges-filter`],
+		]
+			.map((key) => parse_edge_ignore_filter(metadata?.[key]))
+			.find((filter) => !filter.ok || filter.data);
+
+		if (!filter) return;
+		else if (!filter.ok) {
+			log.warn(`ignore-${dir}-edges > ${path} >`, filter.error);
+		} else if (filter.data) {
+			node_attr[`ignore_${dir}_edges`] = filter.data;
+		}
+	});
+};
 
 const add_initial_nodes = (graph: BCGraph, all_files: AllFiles) => {
 	if (all_files.obsidian) {
@@ -21,14 +70,21 @@ const add_initial_nodes = (graph: BCGraph, all_files: AllFiles) => {
 				node_attr.aliases = aliases;
 			}
 
-			if (cache?.frontmatter?.[META_ALIAS["ignore-in-edges"]]) {
-				node_attr.ignore_in_edges = true;
-			}
-			if (cache?.frontmatter?.[META_ALIAS["ignore-out-edges"]]) {
-				node_attr.ignore_out_edges = true;
+			// Frontmatter tags can be a single string, or a list
+			const tags = [cache?.frontmatter?.tags as unknown]
+				.flat()
+				.concat(cache?.tags?.map((item) => item.tag) ?? [])
+				.filter(
+					(tag): tag is string => typeof tag === "string" && !!tag,
+				)
+				.map((tag) => ensure_starts_with(tag, "#"));
+			if (tags.length > 0) {
+				node_attr.tags = tags;
 			}
 
-			graph.addNode(file.path, node_attr);
+			add_ignore_filters(node_attr, cache?.frontmatter, file.path);
+
+			set_initial_node(graph, file.path, node_attr);
 		});
 	} else {
 		all_files.dataview.forEach((page) => {
@@ -41,19 +97,77 @@ const add_initial_nodes = (graph: BCGraph, all_files: AllFiles) => {
 				node_attr.aliases = aliases;
 			}
 
-			if (page[META_ALIAS["ignore-in-edges"]]) {
-				node_attr.ignore_in_edges = true;
-			}
-			if (page[META_ALIAS["ignore-out-edges"]]) {
-				node_attr.ignore_out_edges = true;
+			// NOTE: etags, not tags (which are unwound into their parent tags)
+			const tags = page.file.etags.values;
+			if (Array.isArray(tags) && tags.length > 0) {
+				node_attr.tags = tags;
 			}
 
-			graph.addNode(page.file.path, node_attr);
+			add_ignore_filters(node_attr, page, page.file.path);
+
+			set_initial_node(graph, page.file.path, node_attr);
 		});
 	}
 };
 
-export const rebuild_graph = async (plugin: BreadcrumbsPlugin) => {
+/** Incremented by each full rebuild. A rebuild that's no longer the latest is cancelled */
+let latest_rebuild_id = 0;
+
+/** Build the implied edges in a Web Worker, then replay them onto the graph.
+ * Falls back to the main thread if the worker fails.
+ */
+const add_implied_edges_off_thread = async (
+	graph: BCGraph,
+	plugin: BreadcrumbsPlugin,
+	added_fields: Set<string>,
+	on_progress?: (message: string) => void,
+) => {
+	const { transitive, inverse, symmetric } =
+		plugin.settings.implied_relations;
+
+	// Not worth copying the graph over if there's nothing to do
+	if (
+		!added_fields.size ||
+		transitive.length + inverse.length + symmetric.length === 0
+	) {
+		return succ(add_implied_edges(graph, plugin, added_fields).errors);
+	}
+
+	const result = await run_implied_edges_worker(graph, plugin, added_fields, {
+		on_round: (round, max_rounds) =>
+			on_progress?.(`implied edges, round ${round}/${max_rounds}`),
+	});
+
+	if (result.ok) {
+		result.data.edges.forEach((edge) => {
+			graph.safe_add_directed_edge(
+				edge.source_id,
+				edge.target_id,
+				edge.attr,
+			);
+		});
+
+		return succ(result.data.errors);
+	} else if (result.error === "cancelled") {
+		return fail("cancelled" as const);
+	} else {
+		log.warn("rebuild_graph > worker failed, building implied edges here");
+
+		return succ(add_implied_edges(graph, plugin, added_fields).errors);
+	}
+};
+
+/** Build a new graph from scratch. The slow part, implied edges, is built in a Web Worker.
+ * Resolves with fail("cancelled") if another rebuild starts before this one finishes.
+ */
+export const rebuild_graph = async (
+	plugin: BreadcrumbsPlugin,
+	options?: {
+		/** Called as the rebuild makes progress, e.g. to update a Notice */
+		on_progress?: (message: string) => void;
+	},
+) => {
+	const rebuild_id = ++latest_rebuild_id;
 	const timer = new Timer();
 	const timer2 = new Timer();
 
@@ -85,15 +199,8 @@ export const rebuild_graph = async (plugin: BreadcrumbsPlugin) => {
 	log.debug(timer.elapsedMessage("Adding initial edges"));
 	timer.reset();
 
-	const max_implied_relationship_rounds = Math.max(
-		...plugin.settings.implied_relations.transitive.map(
-			(imp) => imp.rounds,
-		),
-	);
-
-	const implied_edge_results: { transitive: BreadcrumbsError[] } = {
-		transitive: [],
-	};
+	// The explicit builders are async, so a newer rebuild could have started in the meantime
+	if (rebuild_id !== latest_rebuild_id) return fail("cancelled" as const);
 
 	// Track which fields get added, clearing each round
 	// This lets us check if a transitive rule even needs to be considered
@@ -104,44 +211,128 @@ export const rebuild_graph = async (plugin: BreadcrumbsPlugin) => {
 		added_fields.add(edge.attributes.field);
 	}
 
-	for (let round = 1; round <= max_implied_relationship_rounds; round++) {
-		const edges: EdgeToAdd[] = [];
+	const implied_edge_results = await add_implied_edges_off_thread(
+		graph,
+		plugin,
+		added_fields,
+		options?.on_progress,
+	);
+	if (!implied_edge_results.ok || rebuild_id !== latest_rebuild_id) {
+		return fail("cancelled" as const);
+	}
 
-		plugin.settings.implied_relations.transitive.forEach((rule) => {
-			// If none of the fields added in the previous round are in this rule, skip it
-			if (!rule.chain.some((attr) => added_fields.has(attr.field!))) {
-				return;
-			}
+	log.debug(timer.elapsedMessage("Adding implied edges"));
+	log.debug(timer2.elapsedMessage("Total Graph building"));
 
-			const result = _add_implied_edges_transitive(
-				graph,
+	return succ({
+		graph,
+		explicit_edge_results,
+		implied_edge_results: implied_edge_results.data,
+	});
+};
+
+/** Update plugin.graph in place after a single note changed, instead of rebuilding the whole graph.
+ * 1. Refresh the node's attributes
+ * 2. Rerun the builders the note is involved in (just for that note, where possible), and diff against the edges they previously added
+ * 3. Drop and re-derive the implied edges whose chains could pass through any of the changed edges
+ */
+export const rebuild_graph_node = async (
+	plugin: BreadcrumbsPlugin,
+	file: TFile,
+) => {
+	const timer = new Timer();
+	const { graph } = plugin;
+
+	const single_file = get_single_file(plugin.app, file);
+
+	const old_attr = graph.hasNode(file.path)
+		? { ...graph.getNodeAttributes(file.path) }
+		: undefined;
+
+	// NOTE: Changing ignore-in-edges doesn't drop/add the in-edges from other notes.
+	//   Only rebuilding the graph will pick that up
+	add_initial_nodes(graph, single_file);
+
+	// Forget the edges this note's old filters ignored. They get ignored again below if they still match
+	graph.ignored_edges.forEach((ignored, edge_id) => {
+		if (
+			ignored.source_id === file.path ||
+			ignored.target_id === file.path
+		) {
+			graph.ignored_edges.delete(edge_id);
+		}
+	});
+
+	const sources = get_rebuild_sources(graph, file.path, {
+		// The graph has never built this note before
+		is_new: !(file.path in plugin.graph_mtimes),
+		old_attr,
+		new_attr: graph.getNodeAttributes(file.path),
+		metadata: single_file.obsidian
+			? (single_file.obsidian[0]?.cache?.frontmatter ?? undefined)
+			: single_file.dataview[0],
+	});
+
+	// Only the edges of the sources being rerun are diffed.
+	//   For "vault" sources, that's all their edges. For "node" sources, just the ones out of this note
+	const is_rerun_edge = (edge: BCEdge) =>
+		edge.attr.explicit &&
+		sources.includes(edge.attr.source) &&
+		(EXPLICIT_EDGE_SOURCE_SCOPES[edge.attr.source] === "vault" ||
+			edge.source_id === file.path);
+
+	// The edges each builder added last time...
+	const old_edges = graph.get_out_edges().filter(is_rerun_edge);
+
+	// ...and the edges they would add now.
+	// Built on a scratch graph with the same nodes, so that existing edges don't block them
+	const scratch = new BCGraph({
+		nodes: graph.mapNodes((id, attr) => ({ id, attr: { ...attr } })),
+	});
+	scratch.ignored_edges = graph.ignored_edges;
+
+	const all_files = sources.some(
+		(source) => EXPLICIT_EDGE_SOURCE_SCOPES[source] === "vault",
+	)
+		? get_all_files(plugin.app)
+		: single_file;
+
+	const explicit_edge_results = await Promise.all(
+		sources.map(async (source) => {
+			const result = await add_explicit_edges[source](
+				scratch,
 				plugin,
-				rule,
-				round,
+				EXPLICIT_EDGE_SOURCE_SCOPES[source] === "node"
+					? single_file
+					: all_files,
 			);
 
-			edges.push(...result.edges);
-			implied_edge_results.transitive.push(...result.errors);
-		});
+			return { source, errors: result.errors };
+		}),
+	);
 
-		// We don't need the previous fields anymore
-		added_fields.clear();
-
-		// PERF: Break if no edges were added. We've reached a fixed point
-		if (edges.length === 0) break;
-		else {
-			edges.forEach((edge) => {
-				graph.safe_add_directed_edge(
-					edge.source_id,
-					edge.target_id,
-					edge.attr,
-				) && added_fields.add(edge.attr.field);
-			});
-		}
-	}
+	// Builders for "node" sources on the scratch graph only ran for this note.
+	//   So any edges they added from _other_ notes aren't new (e.g. dendron_note adding the unresolved parents)
+	const new_edges = scratch.get_out_edges().filter(is_rerun_edge);
 
-	log.debug(timer.elapsedMessage("Adding implied edges"));
-	log.debug(timer2.elapsedMessage("Total Graph building"));
+	const { added_edges, removed_edges, implied_edge_results } =
+		apply_explicit_edge_diff(graph, plugin, {
+			changed_path: file.path,
+			old_edges,
+			new_edges,
+		});
 
-	return { graph, explicit_edge_results, implied_edge_results };
+	log.debug(
+		`rebuild_graph_node > ${file.path} > sources: ${sources.join(", ")}, removed: ${removed_edges.length}, added: ${added_edges.length}`,
+	);
+	log.debug(timer.elapsedMessage(`rebuild_graph_node > ${file.path}`));
+
+	return {
+		graph,
+		explicit_edge_results,
+		implied_edge_results,
+		/** The explicit edges that changed */
+		added_edges,
+		removed_edges,
+	};
 };
@@ -0,0 +1,237 @@
+import {
+	EXPLICIT_EDGE_SOURCES,
+	EXPLICIT_EDGE_SOURCE_SCOPES,
+	type ExplicitEdgeSource,
+} from "src/const/graph";
+import { META_ALIAS } from "src/const/metadata_fields";
+import type { ImpliedEdgeBuilderPlugin } from "src/interfaces/graph";
+import { get_transitive_rule_name } from "src/utils/transitive_rules";
+import type { BCEdge, BCGraph, BCNodeAttributes } from "../MyMultiGraph";
+import { add_implied_edges } from "./implied";
+
+/** The metadata keys that make a note the config note of a "vault" source */
+const VAULT_SOURCE_META_KEYS: Partial<Record<ExplicitEdgeSource, string[]>> = {
+	tag_note: [
+		META_ALIAS["tag-note-tag"],
+		META_ALIAS["tag-note-field"],
+		META_ALIAS["tag-note-exact"],
+		// Deprecated, but still read
+		"BC-tag-note",
+	],
+	list_note: [
+		META_ALIAS["list-note-field"],
+		META_ALIAS["list-note-neighbour-field"],
+		META_ALIAS["list-note-exclude-index"],
+	],
+	csv_note: [
+		META_ALIAS["table-note-field"],
+		META_ALIAS["table-note-exclude-index"],
+	],
+	traverse_note: [
+		META_ALIAS["traverse-note-field"],
+		META_ALIAS["traverse-note-depth"],
+	],
+	johnny_decimal_note: [META_ALIAS["johnny-decimal-note-field"]],
+	date_note: [],
+};
+
+const same_tags = (a: string[] = [], b: string[] = []) =>
+	a.length === b.length && a.every((tag) => b.includes(tag));
+
+/** Which explicit edge sources to rerun after a single note changed.
+ * "node" sources always rerun (just for that note).
+ * "vault" sources only rerun if the note is involved in their edges:
+ * - it's new (e.g. a date_note or johnny_decimal_note that other notes should now point to)
+ * - one of the source's edges touches it
+ * - it has one of the source's config keys (e.g. it's now a list-note)
+ * - its tags changed, for tag_note
+ */
+export const get_rebuild_sources = (
+	graph: BCGraph,
+	path: string,
+	input: {
+		is_new: boolean;
+		/** The node's attributes before and after the change */
+		old_attr: BCNodeAttributes | undefined;
+		new_attr: BCNodeAttributes | undefined;
+		/** The frontmatter (or Dataview page) of the changed note */
+		metadata: Record<string, unknown> | undefined;
+	},
+): ExplicitEdgeSource[] => {
+	const touching_sources = new Set<ExplicitEdgeSource>();
+
+	if (graph.hasNode(path)) {
+		graph.forEachEdge(path, (_edge_id, attr) => {
+			if (attr.explicit) touching_sources.add(attr.source);
+		});
+	}
+
+	return EXPLICIT_EDGE_SOURCES.filter(
+		(source) =>
+			EXPLICIT_EDGE_SOURCE_SCOPES[source] === "node" ||
+			input.is_new ||
+			touching_sources.has(source) ||
+			VAULT_SOURCE_META_KEYS[source]?.some(
+				(key) => input.metadata?.[key] !== undefined,
+			) ||
+			(source === "tag_note" &&
+				!same_tags(input.old_attr?.tags, input.new_attr?.tags)),
+	);
+};
+
+/** Uniquely identify an explicit edge _and_ the source that added it */
+const explicit_edge_key = (edge: BCEdge) =>
+	edge.id + (edge.attr.explicit ? `|${edge.attr.source}` : "");
+
+/** All nodes within max_depth steps of the given nodes, ignoring edge direction */
+const get_neighbourhood = (
+	graph: BCGraph,
+	node_ids: Iterable<string>,
+	max_depth: number,
+) => {
+	const visited = new Set<string>();
+	let frontier: string[] = [];
+
+	for (const node_id of node_ids) {
+		if (!graph.hasNode(node_id) || visited.has(node_id)) continue;
+
+		visited.add(node_id);
+		frontier.push(node_id);
+	}
+
+	for (let depth = 0; depth < max_depth && frontier.length; depth++) {
+		const next_frontier: string[] = [];
+
+		frontier.forEach((node_id) => {
+			graph.forEachNeighbor(node_id, (neighbour_id) => {
+				if (visited.has(neighbour_id)) return;
+
+				visited.add(neighbour_id);
+				next_frontier.push(neighbour_id);
+			});
+		});
+
+		frontier = next_frontier;
+	}
+
+	return visited;
+};
+
+/** Swap the explicit edges the rerun builders added last time (old_edges) for the ones they add now (new_edges),
+ * then drop and re-derive the implied edges whose chains could pass through any of the changed edges.
+ * Mutates the graph in place.
+ */
+export const apply_explicit_edge_diff = (
+	graph: BCGraph,
+	plugin: ImpliedEdgeBuilderPlugin,
+	input: {
+		changed_path: string;
+		old_edges: BCEdge[];
+		new_edges: BCEdge[];
+	},
+) => {
+	const [old_keys, new_keys] = [
+		new Set(input.old_edges.map(explicit_edge_key)),
+		new Set(input.new_edges.map(explicit_edge_key)),
+	];
+
+	const removed_edges = input.old_edges.filter(
+		(edge) => !new_keys.has(explicit_edge_key(edge)),
+	);
+	const added_edges = input.new_edges.filter(
+		(edge) => !old_keys.has(explicit_edge_key(edge)),
+	);
+
+	const changed_node_ids = new Set<string>([input.changed_path]);
+	removed_edges.concat(added_edges).forEach((edge) => {
+		changed_node_ids.add(edge.source_id);
+		changed_node_ids.add(edge.target_id);
+	});
+
+	// Any start_node further than this from a changed edge can't have a chain passing through it
+	//   (even when the chain uses implied edges from previous rounds)
+	const max_chain_reach = Math.max(
+		0,
+		...plugin.settings.implied_relations.transitive.map(
+			(rule) => rule.chain.length * rule.rounds,
+		),
+		// Inverse and symmetric rules are chains of length 1
+		...plugin.settings.implied_relations.inverse.map((rule) => rule.rounds),
+		...plugin.settings.implied_relations.symmetric.map(
+			(rule) => rule.rounds,
+		),
+	);
+
+	const start_nodes = get_neighbourhood(
+		graph,
+		changed_node_ids,
+		max_chain_reach,
+	);
+
+	// Drop the implied edges whose chain started in the affected area
+	const rules_by_implied_kind = new Map(
+		plugin.settings.implied_relations.transitive.map((rule) => [
+			`transitive:${get_transitive_rule_name(rule)}`,
+			rule,
+		]),
+	);
+
+	const stale_implied_edge_ids = new Set<string>();
+	start_nodes.forEach((node_id) => {
+		graph.forEachEdge(node_id, (edge_id, attr, source_id, target_id) => {
+			if (attr.explicit) return;
+
+			// Inverse and symmetric edges just reverse an edge touching the same node, so they get re-derived too
+			if (!attr.implied_kind.startsWith("transitive:")) {
+				stale_implied_edge_ids.add(edge_id);
+				return;
+			}
+
+			const rule = rules_by_implied_kind.get(attr.implied_kind);
+			const start_node = rule?.close_reversed ? target_id : source_id;
+
+			if (start_nodes.has(start_node)) {
+				stale_implied_edge_ids.add(edge_id);
+			}
+		});
+	});
+
+	stale_implied_edge_ids.forEach((edge_id) => graph.dropEdge(edge_id));
+
+	// Swap the changed explicit edges
+	removed_edges.forEach((edge) => {
+		if (graph.hasEdge(edge.id)) graph.dropEdge(edge.id);
+	});
+
+	added_edges.forEach((edge) => {
+		// New unresolved nodes may have been added on the scratch graph
+		graph.safe_add_node(edge.source_id, edge.source_attr);
+		graph.safe_add_node(edge.target_id, edge.target_attr);
+
+		graph.safe_add_directed_edge(edge.source_id, edge.target_id, edge.attr);
+	});
+
+	// The new edges may have added new nodes to the affected area
+	get_neighbourhood(graph, changed_node_ids, max_chain_reach).forEach(
+		(node_id) => start_nodes.add(node_id),
+	);
+
+	// Re-derive implied edges from the affected start_nodes
+	const added_fields = new Set<string>();
+	start_nodes.forEach((node_id) => {
+		graph.forEachEdge(node_id, (_edge_id, attr) => {
+			added_fields.add(attr.field);
+		});
+	});
+
+	// NOTE: Stays on the main thread. It's limited to the start_nodes, and mutates the graph in place,
+	//   so a cancelled run would leave it half-updated
+	const implied_edge_results = add_implied_edges(
+		graph,
+		plugin,
+		added_fields,
+		start_nodes,
+	).errors;
+
+	return { added_edges, removed_edges, implied_edge_results };
+};
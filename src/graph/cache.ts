@@ -0,0 +1,117 @@
+import type { BreadcrumbsSettings } from "src/interfaces/settings";
+import type { RebuildErrors } from "src/main";
+import { fail, succ } from "src/utils/result";
+import { hash_string } from "src/utils/strings";
+import { BCGraph } from "./MyMultiGraph";
+
+/** Bump this whenever the shape of GraphCacheData changes */
+export const GRAPH_CACHE_VERSION = 1;
+
+export type GraphCacheData = {
+	version: number;
+	/** Changes whenever the plugin version, or a setting that affects the graph, changes */
+	key: string;
+	/** The mtime of each source file in the vault, as of the graph last (re)building it */
+	mtimes: Record<string, number>;
+	graph: ReturnType<BCGraph["export"]>;
+	ignored_edges: [
+		string,
+		BCGraph["ignored_edges"] extends Map<string, infer V> ? V : never,
+	][];
+	rebuild_errors: RebuildErrors;
+};
+
+/** The extensions of the files that builders read. Changes to any other file (images, exports...) can't affect the graph */
+const SOURCE_EXTENSIONS = ["md", "csv"];
+
+/** The mtime of each file that builders read */
+const get_mtimes = (
+	files: { path: string; extension: string; stat: { mtime: number } }[],
+) => {
+	const mtimes: Record<string, number> = {};
+
+	files.forEach((file) => {
+		if (SOURCE_EXTENSIONS.includes(file.extension)) {
+			mtimes[file.path] = file.stat.mtime;
+		}
+	});
+
+	return mtimes;
+};
+
+/** Only the settings that change which edges get built are part of the key.
+ * Changing a view setting shouldn't throw away the cache.
+ * NOTE: That includes the display-only parts of edge_fields, like their mermaid styles
+ */
+const get_key = (settings: BreadcrumbsSettings, plugin_version: string) =>
+	hash_string(
+		JSON.stringify([
+			plugin_version,
+			settings.edge_fields.map((field) => ({ label: field.label })),
+			settings.edge_field_groups,
+			settings.explicit_edge_sources,
+			settings.implied_relations,
+		]),
+	);
+
+const serialize = (
+	graph: BCGraph,
+	input: Pick<GraphCacheData, "key" | "mtimes" | "rebuild_errors">,
+): GraphCacheData => ({
+	...input,
+	version: GRAPH_CACHE_VERSION,
+	graph: graph.export(),
+	ignored_edges: [...graph.ignored_edges.entries()],
+});
+
+/** Load a cache read from disk, as long as it was built by this version, with the same settings */
+const deserialize = (data: unknown, key: string) => {
+	if (!data || typeof data !== "object") {
+		return fail("not an object");
+	}
+
+	const cache = data as Partial<GraphCacheData>;
+	if (cache.version !== GRAPH_CACHE_VERSION) {
+		return fail(`version mismatch: '${cache.version}'`);
+	} else if (cache.key !== key) {
+		return fail("settings changed");
+	} else if (!cache.graph || !cache.mtimes || !cache.ignored_edges) {
+		return fail("missing data");
+	}
+
+	const graph = new BCGraph();
+
+	try {
+		graph.import(cache.graph);
+	} catch (error) {
+		return fail(`invalid graph: ${error}`);
+	}
+
+	graph.ignored_edges = new Map(cache.ignored_edges);
+
+	return succ({
+		graph,
+		mtimes: cache.mtimes,
+		rebuild_errors: cache.rebuild_errors ?? { explicit: {}, implied: {} },
+	});
+};
+
+/** Compare the cached mtimes to the current ones */
+const diff_mtimes = (
+	cached: Record<string, number>,
+	current: Record<string, number>,
+) => ({
+	/** New files, or files modified since the cache was written */
+	changed: Object.keys(current).filter(
+		(path) => cached[path] !== current[path],
+	),
+	deleted: Object.keys(cached).filter((path) => !(path in current)),
+});
+
+export const GraphCache = {
+	get_mtimes,
+	get_key,
+	serialize,
+	deserialize,
+	diff_mtimes,
+};
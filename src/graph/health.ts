@@ -0,0 +1,235 @@
+import { META_ALIAS } from "src/const/metadata_fields";
+import type { EdgeField, EdgeFieldGroup } from "src/interfaces/settings";
+import type { BreadcrumbsError } from "src/interfaces/graph";
+import type { AllFiles } from "./builders/explicit/files";
+import type { BCGraph } from "./MyMultiGraph";
+
+export type HealthIssueKind =
+	| "builder_error"
+	| "unresolved_target"
+	| "orphan"
+	| "deprecated_key"
+	| "undeclared_field";
+
+/** Something the user can do about an issue, straight from the health view */
+export type HealthFix =
+	| { kind: "open_file" }
+	| { kind: "declare_field"; field: string }
+	| { kind: "migrate_key"; from: string; to: string };
+
+export type HealthIssue = {
+	kind: HealthIssueKind;
+	/** Where the issue comes from. An explicit edge source, implied relation kind, or lint name */
+	source: string;
+	/** The note (or CSV file, or setting) the issue is about */
+	path: string;
+	message: string;
+	fixes: HealthFix[];
+};
+
+/** Metadata keys that still work, but have been replaced */
+export const DEPRECATED_METADATA_KEYS: Record<string, string> = {
+	"BC-tag-note": META_ALIAS["tag-note-tag"],
+};
+
+/** Keys that can hold links, but are never edge fields */
+const NON_FIELD_KEYS = new Set(["file", "aliases", "alias", "tags", "tag"]);
+
+/** Dataview also adds a normalised copy of each key, e.g. "Some Key" -> "some-key" */
+const normalise_dataview_key = (key: string) =>
+	key.trim().toLowerCase().replace(/\s+/g, "-");
+
+const is_dataview_link = (value: unknown): boolean =>
+	Array.isArray(value)
+		? value.some(is_dataview_link)
+		: typeof value === "object" &&
+			value !== null &&
+			"path" in value &&
+			typeof value.path === "string";
+
+/** Turn the errors of the last rebuild into issues.
+ * @param errors Keyed by explicit edge source or implied relation kind
+ */
+const from_rebuild_errors = (
+	errors: Record<string, BreadcrumbsError[]>,
+): HealthIssue[] =>
+	Object.entries(errors).flatMap(([source, source_errors]) =>
+		source_errors.map((error) => ({
+			source,
+			kind: "builder_error" as const,
+			path: error.path,
+			message: error.message,
+			// Setting errors point to a setting, not a note (except missing CSV files, which can't be opened anyway)
+			fixes:
+				error.code === "invalid_setting_value"
+					? []
+					: [{ kind: "open_file" as const }],
+		})),
+	);
+
+/** Notes with links to notes that don't exist. One issue per (source note, unresolved target) pair */
+const lint_unresolved_targets = (graph: BCGraph): HealthIssue[] => {
+	const issues: HealthIssue[] = [];
+
+	graph.forEachNode((target_id, target_attr) => {
+		if (target_attr.resolved) return;
+
+		const source_ids = new Set(
+			graph
+				.get_in_edges(target_id)
+				.filter((edge) => edge.attr.explicit)
+				.map((edge) => edge.source_id),
+		);
+
+		source_ids.forEach((source_id) => {
+			// Unresolved notes can chain, e.g. dendron_note parents. Only the real note can be fixed
+			if (!graph.getNodeAttribute(source_id, "resolved")) return;
+
+			issues.push({
+				kind: "unresolved_target",
+				source: "unresolved_target",
+				path: source_id,
+				message: `Links to a note that doesn't exist: '${target_id}'`,
+				fixes: [{ kind: "open_file" }],
+			});
+		});
+	});
+
+	return issues;
+};
+
+/** Resolved notes without a single edge (in or out, explicit or implied) in the given group */
+const lint_orphans = (graph: BCGraph, group: EdgeFieldGroup): HealthIssue[] => {
+	const fields = new Set(group.fields);
+	const issues: HealthIssue[] = [];
+
+	graph.forEachNode((node_id, attr) => {
+		if (!attr.resolved) return;
+
+		const has_group_edge = graph.someEdge(node_id, (_edge_id, edge_attr) =>
+			fields.has(edge_attr.field),
+		);
+
+		if (!has_group_edge) {
+			issues.push({
+				kind: "orphan",
+				source: "orphan",
+				path: node_id,
+				message: `Has no edges in the field group: '${group.label}'`,
+				fixes: [{ kind: "open_file" }],
+			});
+		}
+	});
+
+	return issues;
+};
+
+/** Lint the metadata of each note:
+ * - Deprecated BC-meta-keys
+ * - Keys holding links that aren't declared as edge fields
+ */
+const lint_note_metadata = (
+	all_files: AllFiles,
+	edge_fields: Pick<EdgeField, "label">[],
+): HealthIssue[] => {
+	const issues: HealthIssue[] = [];
+	const field_labels = new Set(edge_fields.map((f) => f.label));
+	const normalised_labels = new Set(
+		edge_fields.map((f) => normalise_dataview_key(f.label)),
+	);
+
+	const lint_keys = (
+		path: string,
+		keys: string[],
+		link_keys: Set<string>,
+	) => {
+		keys.forEach((key) => {
+			const to = DEPRECATED_METADATA_KEYS[key];
+			if (!to) return;
+
+			issues.push({
+				path,
+				kind: "deprecated_key",
+				source: "deprecated_key",
+				message: `'${key}' is deprecated in favor of '${to}'`,
+				fixes: [{ kind: "migrate_key", from: key, to }],
+			});
+		});
+
+		link_keys.forEach((key) => {
+			if (
+				field_labels.has(key) ||
+				NON_FIELD_KEYS.has(key) ||
+				key.startsWith("BC-")
+			) {
+				return;
+			}
+
+			issues.push({
+				path,
+				kind: "undeclared_field",
+				source: "undeclared_field",
+				message: `'${key}' holds links, but isn't an edge field`,
+				fixes: [
+					{ kind: "declare_field", field: key },
+					{ kind: "open_file" },
+				],
+			});
+		});
+	};
+
+	all_files.obsidian?.forEach(({ file, cache }) => {
+		lint_keys(
+			file.path,
+			Object.keys(cache?.frontmatter ?? {}),
+			// NOTE: Nested keys (e.g. "up.0") are flattened with a "."
+			new Set(
+				(cache?.frontmatterLinks ?? []).map(
+					(link) => link.key.split(".")[0],
+				),
+			),
+		);
+	});
+
+	all_files.dataview?.forEach((page) => {
+		const keys = Object.keys(page);
+
+		const link_keys = new Set(
+			keys.filter((key) => {
+				const normalised = normalise_dataview_key(key);
+
+				return (
+					is_dataview_link(page[key]) &&
+					!normalised_labels.has(normalised) &&
+					// Only report the normalised copy of a key
+					(normalised === key || !keys.includes(normalised))
+				);
+			}),
+		);
+
+		lint_keys(page.file.path, keys, link_keys);
+	});
+
+	return issues;
+};
+
+/** Group issues by source, then by path */
+const group_issues = (issues: HealthIssue[]) => {
+	const grouped: Record<string, Record<string, HealthIssue[]>> = {};
+
+	issues.forEach((issue) => {
+		grouped[issue.source] ??= {};
+		grouped[issue.source][issue.path] ??= [];
+		grouped[issue.source][issue.path].push(issue);
+	});
+
+	return grouped;
+};
+
+export const GraphHealth = {
+	from_rebuild_errors,
+	lint_unresolved_targets,
+	lint_orphans,
+	lint_note_metadata,
+	group_issues,
+};
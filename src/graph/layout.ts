@@ -0,0 +1,199 @@
+const LAYOUTS = ["force", "hierarchical"] as const;
+export type GraphLayoutKind = (typeof LAYOUTS)[number];
+
+export type LayoutEdge = { source_id: string; target_id: string };
+export type LayoutPositions = Map<string, { x: number; y: number }>;
+
+/** The ideal distance between two linked nodes */
+const EDGE_LENGTH = 80;
+/** Distance between the layers of a hierarchical layout, and between nodes in a layer */
+const LAYER_GAP = 90;
+const NODE_GAP = 110;
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+/** Unique node ids in the order they appear in the edges, starting with the root */
+const get_node_ids = (edges: LayoutEdge[], root_id?: string) => {
+	const ids = new Set<string>(root_id ? [root_id] : []);
+
+	edges.forEach((edge) => {
+		ids.add(edge.source_id);
+		ids.add(edge.target_id);
+	});
+
+	return [...ids];
+};
+
+/** Fruchterman-Reingold. Deterministic, so the same graph always gets the same layout.
+ * The root node is pinned to the origin.
+ */
+const force = (
+	node_ids: string[],
+	edges: LayoutEdge[],
+	options?: { root_id?: string; iterations?: number },
+): LayoutPositions => {
+	const iterations = options?.iterations ?? 300;
+	const index = new Map(node_ids.map((id, i) => [id, i]));
+
+	// Start on a sunflower spiral, rather than at random
+	const pos = node_ids.map((_, i) => ({
+		x: EDGE_LENGTH * Math.sqrt(i) * Math.cos(i * GOLDEN_ANGLE),
+		y: EDGE_LENGTH * Math.sqrt(i) * Math.sin(i * GOLDEN_ANGLE),
+	}));
+
+	const links = edges
+		.map((edge) => [index.get(edge.source_id), index.get(edge.target_id)])
+		.filter(
+			(link): link is [number, number] =>
+				link[0] !== undefined &&
+				link[1] !== undefined &&
+				link[0] !== link[1],
+		);
+
+	const root_i = options?.root_id ? index.get(options.root_id) : undefined;
+
+	for (let iteration = 0; iteration < iterations; iteration++) {
+		// Cool down linearly, so nodes settle
+		const temperature = EDGE_LENGTH * (1 - iteration / iterations);
+		const disp = pos.map(() => ({ x: 0, y: 0 }));
+
+		// Every pair of nodes repels
+		for (let i = 0; i < pos.length; i++) {
+			for (let j = i + 1; j < pos.length; j++) {
+				const dx = pos[i].x - pos[j].x;
+				const dy = pos[i].y - pos[j].y;
+				const dist = Math.max(Math.hypot(dx, dy), 0.01);
+				const f = (EDGE_LENGTH * EDGE_LENGTH) / dist;
+
+				disp[i].x += (dx / dist) * f;
+				disp[i].y += (dy / dist) * f;
+				disp[j].x -= (dx / dist) * f;
+				disp[j].y -= (dy / dist) * f;
+			}
+		}
+
+		// Linked nodes attract
+		links.forEach(([s, t]) => {
+			const dx = pos[s].x - pos[t].x;
+			const dy = pos[s].y - pos[t].y;
+			const dist = Math.max(Math.hypot(dx, dy), 0.01);
+			const f = (dist * dist) / EDGE_LENGTH;
+
+			disp[s].x -= (dx / dist) * f;
+			disp[s].y -= (dy / dist) * f;
+			disp[t].x += (dx / dist) * f;
+			disp[t].y += (dy / dist) * f;
+		});
+
+		pos.forEach((p, i) => {
+			// Gentle gravity, so disconnected nodes don't drift away
+			disp[i].x -= p.x * 0.05;
+			disp[i].y -= p.y * 0.05;
+
+			const length = Math.max(Math.hypot(disp[i].x, disp[i].y), 0.01);
+			const step = Math.min(length, temperature);
+
+			p.x += (disp[i].x / length) * step;
+			p.y += (disp[i].y / length) * step;
+		});
+
+		if (root_i !== undefined) {
+			pos[root_i] = { x: 0, y: 0 };
+		}
+	}
+
+	return new Map(node_ids.map((id, i) => [id, pos[i]]));
+};
+
+/** Layers by distance from the root, along the direction of the edges.
+ * Nodes in a layer are ordered by the average position of their parents, to reduce crossings.
+ */
+const hierarchical = (
+	node_ids: string[],
+	edges: LayoutEdge[],
+	options?: { root_id?: string; node_gap?: number; layer_gap?: number },
+): LayoutPositions => {
+	const node_gap = options?.node_gap ?? NODE_GAP;
+	const layer_gap = options?.layer_gap ?? LAYER_GAP;
+
+	const depths = new Map<string, number>();
+	const parents = new Map<string, string[]>();
+
+	edges.forEach((edge) => {
+		parents.set(edge.target_id, [
+			...(parents.get(edge.target_id) ?? []),
+			edge.source_id,
+		]);
+	});
+
+	const root_id = options?.root_id ?? node_ids.at(0);
+	if (root_id) {
+		const queue = [root_id];
+		depths.set(root_id, 0);
+
+		while (queue.length) {
+			const id = queue.shift()!;
+
+			edges.forEach((edge) => {
+				if (edge.source_id === id && !depths.has(edge.target_id)) {
+					depths.set(edge.target_id, depths.get(id)! + 1);
+					queue.push(edge.target_id);
+				}
+			});
+		}
+	}
+
+	// Unreachable nodes go below everything else
+	const max_depth = Math.max(0, ...depths.values());
+	const layers: string[][] = [];
+
+	node_ids.forEach((id) => {
+		const depth = depths.get(id) ?? max_depth + 1;
+		(layers[depth] ??= []).push(id);
+	});
+
+	const positions: LayoutPositions = new Map();
+
+	layers.forEach((layer, depth) => {
+		const barycentre = (id: string) => {
+			const xs = (parents.get(id) ?? [])
+				.map((parent) => positions.get(parent)?.x)
+				.filter((x): x is number => x !== undefined);
+
+			return xs.length ? xs.reduce((a, b) => a + b) / xs.length : 0;
+		};
+
+		// NOTE: sort is stable, so ties keep their original order
+		[...layer]
+			.sort((a, b) => barycentre(a) - barycentre(b))
+			.forEach((id, i) => {
+				positions.set(id, {
+					x: (i - (layer.length - 1) / 2) * node_gap,
+					y: depth * layer_gap,
+				});
+			});
+	});
+
+	return positions;
+};
+
+const compute = (
+	kind: GraphLayoutKind,
+	edges: LayoutEdge[],
+	options?: { root_id?: string },
+) => {
+	const node_ids = get_node_ids(edges, options?.root_id);
+
+	return kind === "force"
+		? force(node_ids, edges, options)
+		: hierarchical(node_ids, edges, options);
+};
+
+export const GraphLayout = {
+	LAYOUTS,
+
+	get_node_ids,
+	force,
+	hierarchical,
+	compute,
+};
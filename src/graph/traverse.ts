@@ -1,5 +1,5 @@
-import { BCGraph, type BCEdge, type BCEdgeAttributes } from "./MyMultiGraph";
-import { has_edge_attrs, type EdgeSorter } from "./utils";
+import { BCGraph, type BCEdge } from "./MyMultiGraph";
+import { has_edge_attrs, type EdgeAttrFilters, type EdgeSorter } from "./utils";
 
 export type TraversalStackItem = {
 	edge: BCEdge;
@@ -128,36 +128,282 @@ const sort_edge_tree = (tree: EdgeTree[], sorter: EdgeSorter) => {
 	return tree.sort((a, b) => sorter(a.edge, b.edge));
 };
 
-// TODO: Not sure how, but we need to filter out paths that included the same target_id twice.
-// e.g. me -> spouse -> sibling-in-law under the rule [spouse, sibling, sibling] -> sibling-in-law
-// Yields me -->|sibling-in-law| spouse
-/** Find all paths of nodes connected by edges that pair-wise match the attrs in the chain */
+/** Sort a list of paths, shortest first.
+ * Paths of the same length are ordered by the first edge that differs.
+ * Mutates the input.
+ */
+const sort_edge_paths = (paths: BCEdge[][], sorter: EdgeSorter) =>
+	paths.sort((a, b) => {
+		if (a.length !== b.length) return a.length - b.length;
+
+		for (let i = 0; i < a.length; i++) {
+			const order = sorter(a[i], b[i]);
+			if (order !== 0) return order;
+		}
+
+		return 0;
+	});
+
+/** Find all paths of nodes connected by edges that pair-wise match the attrs in the chain.
+ * Returns the (unique) target_ids at the end of each path.
+ * By default, a path can't revisit any node already on it (including start_node).
+ * e.g. [spouse, sibling, sibling] won't go me -> spouse -> me -> spouse.
+ */
 const get_transitive_chain_target_ids = (
 	graph: BCGraph,
 	start_node: string,
-	chain: Partial<BCEdgeAttributes>[],
-	edge_filter?: (item: TraversalStackItem) => boolean,
+	chain: EdgeAttrFilters[],
+	options?: {
+		/** Allow a path to pass through the same node more than once */
+		allow_revisits?: boolean;
+		edge_filter?: (item: TraversalStackItem) => boolean;
+	},
 ) => {
-	const target_ids: string[] = [];
+	const target_ids = new Set<string>();
+	if (!chain.length) return [];
 
-	Traverse.breadth_first(
-		graph,
-		start_node,
-		(item) => {
-			// Only push the target_id if we're at the end of the chain
-			if (item.depth === chain.length - 1) {
-				target_ids.push(item.edge.target_id);
+	// Without path state, each node only needs walking once per depth
+	const walked = new Set<string>();
+
+	// NOTE: Each partial path tracks its own nodes, so that different paths can still pass through the same node
+	const walk = (node_id: string, depth: number, path_nodes: Set<string>) => {
+		if (options?.allow_revisits) {
+			if (walked.has(`${depth}:${node_id}`)) return;
+			else walked.add(`${depth}:${node_id}`);
+		}
+
+		for (const edge of graph.get_out_edges(node_id)) {
+			const item = { edge, depth };
+
+			if (
+				!has_edge_attrs(edge, chain[depth]) ||
+				(!options?.allow_revisits && path_nodes.has(edge.target_id)) ||
+				(options?.edge_filter && !options.edge_filter(item))
+			) {
+				continue;
+			}
+
+			// Only keep the target_id if we're at the end of the chain
+			if (depth === chain.length - 1) {
+				target_ids.add(edge.target_id);
+			} else if (options?.allow_revisits) {
+				walk(edge.target_id, depth + 1, path_nodes);
+			} else {
+				path_nodes.add(edge.target_id);
+				walk(edge.target_id, depth + 1, path_nodes);
+				path_nodes.delete(edge.target_id);
+			}
+		}
+	};
+
+	walk(start_node, 0, new Set([start_node]));
+
+	return [...target_ids];
+};
+
+/** All simple paths (no node visited twice) from source_id to target_id, min_depth to max_depth edges long.
+ * Shortest paths first. Parallel edges with different fields make different paths.
+ * With max_paths, stops as soon as that many paths are found (so they're the shortest ones).
+ */
+const all_paths_between = (
+	graph: BCGraph,
+	source_id: string,
+	target_id: string,
+	edge_filter?: (edge: BCEdge) => boolean,
+	options?: { min_depth?: number; max_depth?: number; max_paths?: number },
+) => {
+	const paths: BCEdge[][] = [];
+	if (
+		source_id === target_id ||
+		!graph.hasNode(source_id) ||
+		!graph.hasNode(target_id)
+	) {
+		return paths;
+	}
+
+	// NOTE: The number of paths can blow up quickly, so keep the default depth low
+	const max_depth = options?.max_depth ?? 10;
+	const max_paths = options?.max_paths ?? Infinity;
+
+	const path: BCEdge[] = [];
+	const path_nodes = new Set([source_id]);
+	/** Whether the last walk had to stop short of a node, so a longer walk could find more paths */
+	let cut_short = false;
+
+	/** Only collect paths exactly `length` edges long */
+	const walk = (node_id: string, length: number) => {
+		for (const edge of graph.get_out_edges(node_id)) {
+			if (paths.length >= max_paths) return;
+			if (edge_filter && !edge_filter(edge)) continue;
+
+			if (edge.target_id === target_id) {
+				if (path.length + 1 === length) paths.push([...path, edge]);
+			} else if (!path_nodes.has(edge.target_id)) {
+				if (path.length + 1 >= length) {
+					cut_short = true;
+					continue;
+				}
+
+				path.push(edge);
+				path_nodes.add(edge.target_id);
+
+				walk(edge.target_id, length);
+
+				path.pop();
+				path_nodes.delete(edge.target_id);
+			}
+		}
+	};
+
+	// Iterative deepening, so the walk can stop early and still return the shortest paths
+	for (
+		let length = Math.max(1, options?.min_depth ?? 1);
+		length <= max_depth;
+		length++
+	) {
+		cut_short = false;
+		walk(source_id, length);
+
+		// Either there are enough paths, or there are no longer ones
+		if (paths.length >= max_paths || !cut_short) break;
+	}
+
+	return paths;
+};
+
+/** The shortest path (fewest edges) from source_id to target_id, found with a breadth-first search.
+ * Returns null if there's no path.
+ */
+const shortest_path_between = (
+	graph: BCGraph,
+	source_id: string,
+	target_id: string,
+	edge_filter?: (edge: BCEdge) => boolean,
+	/** Nodes and edges the path may not use. Used by k_shortest_paths_between */
+	blocked?: { node_ids?: Set<string>; edge_ids?: Set<string> },
+): BCEdge[] | null => {
+	if (
+		source_id === target_id ||
+		!graph.hasNode(source_id) ||
+		!graph.hasNode(target_id)
+	) {
+		return null;
+	}
+
+	/** The edge each node was first reached by */
+	const reached_by = new Map<string, BCEdge>();
+	const visited = new Set([source_id]);
+	let frontier = [source_id];
+
+	while (frontier.length && !reached_by.has(target_id)) {
+		const next_frontier: string[] = [];
+
+		for (const node_id of frontier) {
+			for (const edge of graph.get_out_edges(node_id)) {
+				if (
+					visited.has(edge.target_id) ||
+					blocked?.node_ids?.has(edge.target_id) ||
+					blocked?.edge_ids?.has(edge.id) ||
+					(edge_filter && !edge_filter(edge))
+				) {
+					continue;
+				}
+
+				visited.add(edge.target_id);
+				reached_by.set(edge.target_id, edge);
+				next_frontier.push(edge.target_id);
 			}
-		},
-		(item) =>
-			// Ensures we don't go over the chain length ("max_depth")
-			chain[item.depth] &&
-			// Check if the edge has the attrs we're looking for
-			has_edge_attrs(item.edge, chain[item.depth]) &&
-			(!edge_filter || edge_filter(item)),
+		}
+
+		frontier = next_frontier;
+	}
+
+	if (!reached_by.has(target_id)) return null;
+
+	// Walk back from the target
+	const path: BCEdge[] = [];
+	for (
+		let edge = reached_by.get(target_id);
+		edge;
+		edge = reached_by.get(edge.source_id)
+	) {
+		path.unshift(edge);
+	}
+
+	return path;
+};
+
+/** The k shortest simple paths from source_id to target_id, shortest first.
+ * Uses Yen's algorithm, with a breadth-first search for each spur path (all edges have the same weight).
+ */
+const k_shortest_paths_between = (
+	graph: BCGraph,
+	source_id: string,
+	target_id: string,
+	k: number,
+	edge_filter?: (edge: BCEdge) => boolean,
+) => {
+	const first = shortest_path_between(
+		graph,
+		source_id,
+		target_id,
+		edge_filter,
 	);
+	if (!first || k < 1) return [];
+
+	const path_key = (path: BCEdge[]) => path.map((e) => e.id).join("\n");
+
+	const paths = [first];
+	const seen = new Set([path_key(first)]);
+	let candidates: BCEdge[][] = [];
+
+	while (paths.length < k) {
+		const prev = paths[paths.length - 1];
+
+		for (let i = 0; i < prev.length; i++) {
+			const root = prev.slice(0, i);
+			const root_key = path_key(root);
+			const spur_node = i === 0 ? source_id : prev[i - 1].target_id;
+
+			// Don't take the same next step as any path found so far with the same root...
+			const edge_ids = new Set(
+				paths
+					.filter((path) => path_key(path.slice(0, i)) === root_key)
+					.map((path) => path[i]?.id)
+					.filter((id): id is string => id !== undefined),
+			);
+
+			// ...and don't go back through the root
+			const node_ids = new Set([
+				source_id,
+				...root.map((e) => e.target_id),
+			]);
+			node_ids.delete(spur_node);
+
+			const spur = shortest_path_between(
+				graph,
+				spur_node,
+				target_id,
+				edge_filter,
+				{ node_ids, edge_ids },
+			);
+			if (!spur) continue;
+
+			const candidate = root.concat(spur);
+			const key = path_key(candidate);
+			if (seen.has(key)) continue;
+
+			seen.add(key);
+			candidates.push(candidate);
+		}
 
-	return target_ids;
+		if (!candidates.length) break;
+
+		candidates = candidates.sort((a, b) => a.length - b.length);
+		paths.push(candidates.shift()!);
+	}
+
+	return paths;
 };
 
 export const Traverse = {
@@ -168,6 +414,11 @@ export const Traverse = {
 	tree_to_all_paths,
 
 	sort_edge_tree,
+	sort_edge_paths,
 
 	get_transitive_chain_target_ids,
+
+	all_paths_between,
+	shortest_path_between,
+	k_shortest_paths_between,
 };
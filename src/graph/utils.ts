@@ -1,14 +1,19 @@
 import {
 	COMPLEX_EDGE_SORT_FIELD_PREFIXES,
+	EXPLICIT_EDGE_SOURCES,
 	type EdgeSortId,
+	type ExplicitEdgeSource,
 } from "src/const/graph";
+import type { Result } from "src/interfaces/result";
 import type { ShowNodeOptions } from "src/interfaces/settings";
 import { Paths } from "src/utils/paths";
+import { fail, succ } from "src/utils/result";
 import type {
 	BCEdge,
 	BCEdgeAttributes,
 	BCGraph,
 	BCNodeAttributes,
+	EdgeIgnoreFilter,
 } from "./MyMultiGraph";
 
 export const is_self_loop = (edge: Pick<BCEdge, "source_id" | "target_id">) =>
@@ -172,19 +177,335 @@ export type EdgeAttrFilters = Partial<
 	Pick<BCEdgeAttributes, "explicit" | "field">
 > &
 	Partial<{
+		/** Only explicit edges from this source */
+		source: ExplicitEdgeSource;
+		/** Only implied edges of this kind */
+		implied_kind: string;
+		/** Inclusive range of the round the edge was added in. Explicit edges are round 0 */
+		round: Partial<{ min: number; max: number }>;
+
 		$or_fields: string[];
+		$or_sources: ExplicitEdgeSource[];
 		$or_target_ids: string[];
+
+		/** The edge must _not_ have any of these fields/sources/implied_kinds */
+		$not_fields: string[];
+		$not_sources: ExplicitEdgeSource[];
+		$not_implied_kinds: string[];
 	}>;
 
-// NOTE: Technically the source and implied_kind fields could be implemented here, but missions for now
+const is_in_round_range = (
+	round: number,
+	range: NonNullable<EdgeAttrFilters["round"]>,
+) =>
+	(range.min === undefined || round >= range.min) &&
+	(range.max === undefined || round <= range.max);
+
 export const has_edge_attrs = (edge: BCEdge, attrs?: EdgeAttrFilters) =>
 	attrs === undefined ||
 	[
 		attrs.field === undefined || edge.attr.field === attrs.field,
 		attrs.explicit === undefined || edge.attr.explicit === attrs.explicit,
+		attrs.source === undefined ||
+			(edge.attr.explicit && edge.attr.source === attrs.source),
+		attrs.implied_kind === undefined ||
+			(!edge.attr.explicit &&
+				edge.attr.implied_kind === attrs.implied_kind),
+		attrs.round === undefined ||
+			is_in_round_range(
+				edge.attr.explicit ? 0 : edge.attr.round,
+				attrs.round,
+			),
 
 		attrs.$or_fields === undefined ||
 			attrs.$or_fields.includes(edge.attr.field ?? "null"),
+		attrs.$or_sources === undefined ||
+			(edge.attr.explicit &&
+				attrs.$or_sources.includes(edge.attr.source)),
 		attrs.$or_target_ids === undefined ||
 			attrs.$or_target_ids.includes(edge.target_id),
+
+		attrs.$not_fields === undefined ||
+			!attrs.$not_fields.includes(edge.attr.field),
+		attrs.$not_sources === undefined ||
+			!edge.attr.explicit ||
+			!attrs.$not_sources.includes(edge.attr.source),
+		attrs.$not_implied_kinds === undefined ||
+			edge.attr.explicit ||
+			!attrs.$not_implied_kinds.includes(edge.attr.implied_kind),
+	].every(Boolean);
+
+/** Keys allowed in the string syntax of {@link parse_edge_attr_filters}.
+ * Any of them can be negated with `!=`, except explicit and round.
+ */
+const EDGE_ATTR_FILTER_KEYS = [
+	"field",
+	"source",
+	"implied_kind",
+	"explicit",
+	"round",
+] as const;
+
+/** Parse the string syntax of an EdgeAttrFilters, as used in transitive rule chains and codeblocks.
+ * Space-separated URLSearchParams, e.g. `field=down source=list_note round=0..1 field!=up`
+ * - Repeating a key ORs the values together (field=up field=down)
+ * - `key!=value` negates it
+ * - round takes a number or an inclusive range: `round=1`, `round=1..3`, `round=..2`, `round=1..`
+ * A string without any `=` is shorthand for a single field.
+ */
+export const parse_edge_attr_filters = (
+	str: string,
+): Result<EdgeAttrFilters, string> => {
+	str = str.trim();
+	if (!str) return fail("Empty edge filter");
+	else if (!str.includes("=")) return succ({ field: str });
+
+	// NOTE: URLSearchParams splits `field!=up` into the key `field!` and value `up`
+	const params = new URLSearchParams(str.split(/\s+/).join("&"));
+
+	const values: Partial<
+		Record<(typeof EDGE_ATTR_FILTER_KEYS)[number], string[]>
+	> = {};
+	const negated: Partial<
+		Record<(typeof EDGE_ATTR_FILTER_KEYS)[number], string[]>
+	> = {};
+
+	let invalid_key: string | undefined;
+	params.forEach((value, raw_key) => {
+		const negate = raw_key.endsWith("!");
+		const key = (
+			negate ? raw_key.slice(0, -1) : raw_key
+		) as (typeof EDGE_ATTR_FILTER_KEYS)[number];
+
+		if (
+			!EDGE_ATTR_FILTER_KEYS.includes(key) ||
+			(negate && (key === "explicit" || key === "round"))
+		) {
+			invalid_key ??= raw_key;
+			return;
+		}
+
+		// Allow the same dashed names as the metadata fields, e.g. list-note
+		if (key === "source") value = value.replace(/-/g, "_");
+
+		const target = negate ? negated : values;
+		target[key] = [...(target[key] ?? []), value];
+	});
+
+	if (invalid_key !== undefined) {
+		return fail(`Invalid edge filter key: '${invalid_key}'`);
+	}
+
+	const invalid_source = [
+		...(values.source ?? []),
+		...(negated.source ?? []),
+	].find(
+		(source) =>
+			!EXPLICIT_EDGE_SOURCES.includes(source as ExplicitEdgeSource),
+	);
+	if (invalid_source) {
+		return fail(`Invalid edge filter source: '${invalid_source}'`);
+	}
+
+	const filters: EdgeAttrFilters = {};
+
+	// A single value sets the key itself, multiple values are OR-ed together
+	if (values.field?.length === 1) filters.field = values.field[0];
+	else if (values.field) filters.$or_fields = values.field;
+
+	if (values.source?.length === 1) {
+		filters.source = values.source[0] as ExplicitEdgeSource;
+	} else if (values.source) {
+		filters.$or_sources = values.source as ExplicitEdgeSource[];
+	}
+
+	if (values.implied_kind?.length === 1) {
+		filters.implied_kind = values.implied_kind[0];
+	} else if (values.implied_kind) {
+		return fail("Only one implied_kind can be given");
+	}
+
+	if (values.explicit) {
+		const explicit = values.explicit.at(-1);
+		if (explicit !== "true" && explicit !== "false") {
+			return fail(`Invalid edge filter explicit: '${explicit}'`);
+		}
+
+		filters.explicit = explicit === "true";
+	}
+
+	if (values.round) {
+		const round = values.round.at(-1)!;
+		const [min, max] = round.includes("..")
+			? round.split("..", 2)
+			: [round, round];
+
+		const range: NonNullable<EdgeAttrFilters["round"]> = {};
+		if (min !== "") range.min = Number(min);
+		if (max !== "") range.max = Number(max);
+
+		if (
+			!Object.keys(range).length ||
+			Object.values(range).some((n) => !Number.isInteger(n)) ||
+			(range.min ?? 0) > (range.max ?? Infinity)
+		) {
+			return fail(`Invalid edge filter round: '${round}'`);
+		}
+
+		filters.round = range;
+	}
+
+	if (negated.field) filters.$not_fields = negated.field;
+	if (negated.source) {
+		filters.$not_sources = negated.source as ExplicitEdgeSource[];
+	}
+	if (negated.implied_kind) {
+		filters.$not_implied_kinds = negated.implied_kind;
+	}
+
+	return succ(filters);
+};
+
+/** The inverse of {@link parse_edge_attr_filters}.
+ * $or_target_ids has no string syntax, so it's left out.
+ */
+export const stringify_edge_attr_filters = (filters: EdgeAttrFilters) => {
+	const params: string[] = [];
+	const encode = (key: string, value: unknown) =>
+		params.push(`${key}=${encodeURIComponent(String(value))}`);
+
+	for (const key in filters) {
+		const value = filters[key as keyof EdgeAttrFilters];
+		if (value === undefined) continue;
+
+		switch (key as keyof EdgeAttrFilters) {
+			case "field":
+			case "source":
+			case "implied_kind":
+			case "explicit": {
+				encode(key, value);
+				break;
+			}
+
+			case "round": {
+				const { min, max } = value as NonNullable<
+					EdgeAttrFilters["round"]
+				>;
+				params.push(
+					min !== undefined && min === max
+						? `round=${min}`
+						: `round=${min ?? ""}..${max ?? ""}`,
+				);
+				break;
+			}
+
+			case "$or_fields": {
+				(value as string[]).forEach((v) => encode("field", v));
+				break;
+			}
+			case "$or_sources": {
+				(value as string[]).forEach((v) => encode("source", v));
+				break;
+			}
+
+			case "$not_fields": {
+				(value as string[]).forEach((v) => encode("field!", v));
+				break;
+			}
+			case "$not_sources": {
+				(value as string[]).forEach((v) => encode("source!", v));
+				break;
+			}
+			case "$not_implied_kinds": {
+				(value as string[]).forEach((v) => encode("implied_kind!", v));
+				break;
+			}
+		}
+	}
+
+	// Lone fields use the shorthand
+	return params.length === 1 && filters.field !== undefined
+		? filters.field
+		: params.join(" ");
+};
+
+/** Parse the value of BC-ignore-(in|out)-edges or BC-ignore-(in|out)-edges-filter into a filter.
+ * - true (or "true"): Ignore all edges
+ * - "source=tag_note source=regex_note field=down explicit=false": Space-separated URLSearchParams.
+ *     Repeated keys are OR-ed together, and different keys are AND-ed.
+ * Returns undefined if nothing should be ignored.
+ */
+export const parse_edge_ignore_filter = (
+	value: unknown,
+): Result<EdgeIgnoreFilter | undefined, string> => {
+	// NOTE: A checkbox property shown as text (e.g. if its type was changed) is saved as a string
+	if (typeof value === "string" && /^\s*(true|false)\s*$/i.test(value)) {
+		value = value.trim().toLowerCase() === "true";
+	}
+
+	if (!value) return succ(undefined);
+	else if (value === true) return succ({});
+
+	// List properties come through as arrays
+	const str = Array.isArray(value) ? value.join(" ") : value;
+	if (typeof str !== "string") {
+		return fail(`Invalid ignore filter: '${value}'`);
+	}
+
+	const params = new URLSearchParams(str.trim().split(/\s+/).join("&"));
+
+	const unknown_keys: string[] = [];
+	params.forEach((_, key) => {
+		if (!["source", "field", "explicit"].includes(key)) {
+			unknown_keys.push(key);
+		}
+	});
+	if (unknown_keys.length) {
+		return fail(`Invalid ignore filter key: '${unknown_keys[0]}'`);
+	}
+
+	const filter: EdgeIgnoreFilter = {};
+
+	if (params.has("source")) {
+		// Allow the same dashed names as the metadata fields, e.g. list-note
+		const sources = params
+			.getAll("source")
+			.map((source) => source.replace(/-/g, "_") as ExplicitEdgeSource);
+
+		const invalid = sources.find(
+			(source) => !EXPLICIT_EDGE_SOURCES.includes(source),
+		);
+		if (invalid) {
+			return fail(`Invalid ignore filter source: '${invalid}'`);
+		}
+
+		filter.sources = sources;
+	}
+
+	if (params.has("field")) {
+		filter.fields = params.getAll("field");
+	}
+
+	if (params.has("explicit")) {
+		const explicit = params.get("explicit");
+		if (explicit !== "true" && explicit !== "false") {
+			return fail(`Invalid ignore filter explicit: '${explicit}'`);
+		}
+
+		filter.explicit = explicit === "true";
+	}
+
+	return succ(filter);
+};
+
+export const matches_edge_ignore_filter = (
+	attr: BCEdgeAttributes,
+	filter?: EdgeIgnoreFilter,
+) =>
+	filter !== undefined &&
+	[
+		filter.sources === undefined ||
+			(attr.explicit && filter.sources.includes(attr.source)),
+		filter.fields === undefined || filter.fields.includes(attr.field),
+		filter.explicit === undefined || attr.explicit === filter.explicit,
 	].every(Boolean);
@@ -2,6 +2,7 @@ import type { BCEdgeAttributes, BCGraph } from "src/graph/MyMultiGraph";
 import type { AllFiles } from "src/graph/builders/explicit/files";
 import type BreadcrumbsPlugin from "src/main";
 import type { MaybePromise } from ".";
+import type { BreadcrumbsSettings } from "./settings";
 
 export type BreadcrumbsError = {
 	// TODO: Differentiate between invalid edge-field and invalid metadata-field values
@@ -33,6 +34,11 @@ export type EdgeToAdd = {
 	attr: BCEdgeAttributes;
 };
 
+/** The part of the plugin the implied edge builders use. Plain data, so it can be sent to a Web Worker */
+export type ImpliedEdgeBuilderPlugin = {
+	settings: Pick<BreadcrumbsSettings, "edge_fields" | "implied_relations">;
+};
+
 export type ImpliedEdgeBuilderResults = {
 	edges: EdgeToAdd[];
 	errors: BreadcrumbsError[];
@@ -0,0 +1,11 @@
+/** Bundled on its own, and imported as a string of code. See the inline_bundle plugin in esbuild.config.mjs */
+declare module "*?worker" {
+	const code: string;
+	export default code;
+}
+
+/** Bundled on its own, and imported as a string of code to inline into exported files. See the same plugin */
+declare module "*?script" {
+	const code: string;
+	export default code;
+}
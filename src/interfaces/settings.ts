@@ -1,10 +1,20 @@
 import type { ListIndex } from "src/commands/list_index";
 import type { EdgeSortId } from "src/const/graph";
+import type { GraphLayoutKind } from "src/graph/layout";
 import type { BCEdgeAttributes, EdgeAttribute } from "src/graph/MyMultiGraph";
 import type { EdgeAttrFilters } from "src/graph/utils";
 import type { LogLevels } from "src/logger";
-
-export type EdgeField = { label: string };
+import type { Mermaid } from "src/utils/mermaid";
+
+export type EdgeField = {
+	label: string;
+	/** How to draw edges of this field in Mermaid diagrams */
+	mermaid?: {
+		arrow?: Mermaid["ArrowStyle"];
+		/** Any CSS colour that doesn't contain a comma, e.g. `#e67e22` or `teal` */
+		colour?: string;
+	};
+};
 export type EdgeFieldGroup = { label: string; fields: EdgeField["label"][] };
 
 export type ShowNodeOptions = {
@@ -15,6 +25,14 @@ export type ShowNodeOptions = {
 
 export type CrumbDestination = "frontmatter" | "dataview-inline";
 
+/** Gate an implied relation on a property of the notes at either end of the implied edge */
+export type ImpliedRelationCondition = {
+	/** Which end of the implied edge to check */
+	node: "source" | "target";
+	/** The note must have this tag (or a nested tag under it) */
+	tag: string;
+};
+
 export interface BreadcrumbsSettings {
 	is_dirty: boolean;
 
@@ -34,6 +52,25 @@ export interface BreadcrumbsSettings {
 			close_field: string;
 			/** If false, add the edge from start to end. Else from end to start */
 			close_reversed: boolean;
+			/** Allow a chain to pass through the same note more than once. Off (undefined) by default */
+			allow_revisits?: boolean;
+			/** Only add the implied edge if all conditions hold */
+			conditions?: ImpliedRelationCondition[];
+		}[];
+
+		/** A -field-> B implies B -inverse_field-> A, and vice versa */
+		inverse: {
+			rounds: number;
+			field: string;
+			inverse_field: string;
+			conditions?: ImpliedRelationCondition[];
+		}[];
+
+		/** A -field-> B implies B -field-> A. Like an inverse rule where the field is its own inverse */
+		symmetric: {
+			rounds: number;
+			field: string;
+			conditions?: ImpliedRelationCondition[];
 		}[];
 	};
 
@@ -77,6 +114,13 @@ export interface BreadcrumbsSettings {
 		regex_note: {
 			default_field: string;
 		};
+
+		csv_note: {
+			/** Vault paths of the CSV files to read edges from.
+			 * (Markdown tables in notes with BC-table-note-field are picked up regardless)
+			 */
+			paths: string[];
+		};
 	};
 
 	views: {
@@ -126,6 +170,15 @@ export interface BreadcrumbsSettings {
 				show_attributes: EdgeAttribute[];
 				show_node_options: ShowNodeOptions;
 			};
+
+			graph: {
+				/** How many edges away from the active note to go */
+				depth: number;
+				layout: GraphLayoutKind;
+				edge_kind: "all" | "explicit" | "implied";
+				field_group_labels: string[];
+				show_node_options: ShowNodeOptions;
+			};
 		};
 
 		codeblocks: {
@@ -138,10 +191,12 @@ export interface BreadcrumbsSettings {
 			notify: boolean;
 
 			trigger: {
-				// TODO: Not actually implemented yet
 				note_save: boolean;
 				layout_change: boolean;
 			};
+
+			/** How long to wait after the last change to a note before rebuilding its edges */
+			note_save_debounce_ms: number;
 		};
 
 		list_index: {
@@ -202,7 +257,7 @@ export interface BreadcrumbsSettingsWithDirection {
 	custom_implied_relations: {
 		transitive: {
 			rounds: number;
-			chain: Partial<BCEdgeAttributes>[];
+			chain: Partial<Pick<BCEdgeAttributes, "field">>[];
 			/** The transitive closure field */
 			close_field: string;
 		}[];
@@ -326,7 +381,7 @@ export type OLD_BREADCRUMBS_SETTINGS = Partial<{
 	// SECTION: explicit_edge_sources
 	addDateNotes: boolean; // MIGRATED
 
-	CSVPaths: string;
+	CSVPaths: string; // MIGRATED
 
 	dataviewNoteField: string;
 	dvWaitTime: number; // MIGRATED
@@ -1,31 +1,118 @@
-import { Notice, Plugin, TFile, WorkspaceLeaf } from "obsidian";
+import { Notice, Plugin, TFile, WorkspaceLeaf, normalizePath } from "obsidian";
 import { Codeblocks } from "src/codeblocks";
 import { DEFAULT_SETTINGS } from "src/const/settings";
 import { VIEW_IDS } from "src/const/views";
-import { rebuild_graph } from "src/graph/builders";
+import { rebuild_graph, rebuild_graph_node } from "src/graph/builders";
+import { EXPLICIT_EDGE_SOURCE_SCOPES } from "src/const/graph";
 import type { BreadcrumbsSettings } from "src/interfaces/settings";
 import { BreadcrumbsSettingTab } from "src/settings/SettingsTab";
 import { active_file_store } from "src/stores/active_file";
 import { MatrixView } from "src/views/matrix";
 import { BCAPI } from "./api";
+import { BC_EVENTS, trigger_event } from "./api/events";
 import { CodeblockMDRC } from "./codeblocks/MDRC";
 import { init_all_commands } from "./commands/init";
 import { METADATA_FIELDS_MAP } from "./const/metadata_fields";
 import { dataview_plugin } from "./external/dataview";
 import { BCGraph } from "./graph/MyMultiGraph";
+import { GraphCache } from "./graph/cache";
 import type { BreadcrumbsError } from "./interfaces/graph";
 import { log } from "./logger";
 import { migrate_old_settings } from "./settings/migration";
 import { EdgeFieldSuggestor } from "./suggestor/edge_fields";
 import { deep_merge_objects } from "./utils/objects";
 import { Timer } from "./utils/timer";
+import { GraphView } from "./views/graph";
+import { HealthView } from "./views/health";
 import { redraw_page_views } from "./views/page";
 import { TreeView } from "./views/tree";
 
+/** What full and node-level rebuilds have in common */
+type RebuildResults = Pick<
+	Awaited<ReturnType<typeof rebuild_graph_node>>,
+	"explicit_edge_results" | "implied_edge_results"
+>;
+
+/** Group the errors of a (full or node-level) rebuild, and log them */
+const log_rebuild_errors = (rebuild_results: RebuildResults) => {
+	const explicit_edge_errors = rebuild_results.explicit_edge_results
+		.filter((result) => result.errors.length)
+		.reduce(
+			(acc, { source, errors }) => {
+				acc[source] = errors;
+				return acc;
+			},
+			{} as Record<string, BreadcrumbsError[]>,
+		);
+
+	const implied_edge_results = Object.fromEntries(
+		Object.entries(rebuild_results.implied_edge_results)
+			.filter(([_, errors]) => errors.length)
+			.map(([implied_kind, errors]) => [implied_kind, errors]),
+	);
+
+	if (Object.keys(explicit_edge_errors).length) {
+		log.warn("explicit_edge_errors >", explicit_edge_errors);
+	}
+	if (Object.keys(implied_edge_results).length) {
+		log.warn("implied_edge_results >", implied_edge_results);
+	}
+
+	return { explicit_edge_errors, implied_edge_results };
+};
+
+/** If more files than this changed since the graph cache was saved, rebuild the whole graph instead of each note */
+const MAX_GRAPH_CACHE_CHANGED_FILES = 20;
+/** Wait for the graph to settle before writing it to disk */
+const GRAPH_CACHE_SAVE_DEBOUNCE_MS = 2000;
+
+export type RebuildErrors = {
+	/** Keyed by explicit edge source */
+	explicit: Record<string, BreadcrumbsError[]>;
+	/** Keyed by implied relation kind */
+	implied: Record<string, BreadcrumbsError[]>;
+};
+
+/** Fold the errors of a rebuild into the errors of the last one.
+ * A full rebuild replaces them all.
+ * A node-level rebuild only reran the "node" sources for the changed_file, so only its errors from those sources are replaced.
+ * The "vault" sources it reran replace all their errors, and the ones it skipped keep theirs.
+ */
+const merge_rebuild_errors = (
+	old_errors: RebuildErrors,
+	rebuild_results: RebuildResults,
+	changed_file?: TFile,
+): RebuildErrors => ({
+	explicit: {
+		// A node-level rebuild skips the "vault" sources the note isn't involved in
+		...(changed_file ? old_errors.explicit : {}),
+		...Object.fromEntries(
+			rebuild_results.explicit_edge_results.map(({ source, errors }) => [
+				source,
+				changed_file && EXPLICIT_EDGE_SOURCE_SCOPES[source] === "node"
+					? (old_errors.explicit[source] ?? [])
+							.filter((error) => error.path !== changed_file.path)
+							.concat(errors)
+					: errors,
+			]),
+		),
+	},
+	implied: { ...rebuild_results.implied_edge_results },
+});
+
 export default class BreadcrumbsPlugin extends Plugin {
 	settings!: BreadcrumbsSettings;
 	graph = new BCGraph();
 	api!: BCAPI;
+	/** The errors of the last rebuild, shown in the health view */
+	rebuild_errors: RebuildErrors = { explicit: {}, implied: {} };
+	/** Pending note_save rebuilds, by file path */
+	private changed_file_timers = new Map<string, number>();
+	private graph_cache_timer: number | undefined;
+	/** The file mtimes of the graph loaded from the cache, until it's been reconciled */
+	private graph_cache_mtimes: Record<string, number> | null = null;
+	/** The mtime of each source file, as of the graph last (re)building it */
+	graph_mtimes: Record<string, number> = {};
 
 	async onload() {
 		// Settings
@@ -43,6 +130,9 @@ export default class BreadcrumbsPlugin extends Plugin {
 		this.settings = migrate_old_settings(this.settings);
 		await this.saveSettings();
 
+		// Views can render the last session's graph straight away, until it's reconciled on layout-ready
+		await this.load_graph_cache();
+
 		// Set the edge_fields & BC-meta-fields to the right Properties type
 		try {
 			const all_properties =
@@ -96,14 +186,14 @@ export default class BreadcrumbsPlugin extends Plugin {
 			if (this.app.metadataCache.initialized) {
 				log.debug("metadataCache:initialized");
 
-				await this.refresh();
+				await this.reconcile_graph_cache();
 			} else {
 				const metadatacache_init_event = this.app.metadataCache.on(
 					"initialized",
 					async () => {
 						log.debug("on:metadatacache-initialized");
 
-						await this.refresh();
+						await this.reconcile_graph_cache();
 						this.app.metadataCache.offref(metadatacache_init_event);
 					},
 				);
@@ -140,6 +230,33 @@ export default class BreadcrumbsPlugin extends Plugin {
 				}),
 			);
 
+			/// Metadata cache
+			this.registerEvent(
+				this.app.metadataCache.on("changed", (file) => {
+					log.debug("on:changed >", file.path);
+
+					// NOTE: If Dataview is enabled, wait for it to reindex the note instead.
+					//   Otherwise the dataview_note and list_note builders would read stale metadata
+					if (dataview_plugin.is_enabled(this.app)) return;
+
+					this.queue_changed_file(file);
+				}),
+			);
+
+			this.registerEvent(
+				this.app.metadataCache.on(
+					//@ts-ignore: It's there if dataview is enabled
+					"dataview:metadata-change",
+					(type: string, file: unknown) => {
+						if (type !== "update" || !(file instanceof TFile))
+							return;
+						log.debug("on:dataview:metadata-change >", file.path);
+
+						this.queue_changed_file(file);
+					},
+				),
+			);
+
 			/// Vault
 			this.registerEvent(
 				this.app.vault.on("create", (file) => {
@@ -169,6 +286,12 @@ export default class BreadcrumbsPlugin extends Plugin {
 							log.error("safe_rename_node >", res.error.message);
 						}
 
+						if (old_path in this.graph_mtimes) {
+							this.graph_mtimes[file.path] =
+								this.graph_mtimes[old_path];
+							delete this.graph_mtimes[old_path];
+						}
+
 						// NOTE: No need to this.refresh. The event triggers a layout-change anyway
 					}
 				}),
@@ -203,6 +326,14 @@ export default class BreadcrumbsPlugin extends Plugin {
 				VIEW_IDS.tree,
 				(leaf) => new TreeView(leaf, this),
 			);
+			this.registerView(
+				VIEW_IDS.graph,
+				(leaf) => new GraphView(leaf, this),
+			);
+			this.registerView(
+				VIEW_IDS.health,
+				(leaf) => new HealthView(leaf, this),
+			);
 		});
 
 		// Codeblocks
@@ -225,7 +356,148 @@ export default class BreadcrumbsPlugin extends Plugin {
 		log.debug("loaded Breadcrumbs plugin");
 	}
 
-	onunload() {}
+	onunload() {
+		this.changed_file_timers.forEach((timer) => window.clearTimeout(timer));
+		this.changed_file_timers.clear();
+
+		// Don't lose the last changes to the graph
+		if (this.graph_cache_timer !== undefined) {
+			window.clearTimeout(this.graph_cache_timer);
+			this.save_graph_cache();
+		}
+	}
+
+	private get graph_cache_path() {
+		return normalizePath(
+			`${this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/graph-cache.json`,
+		);
+	}
+
+	private get_file_mtimes() {
+		return GraphCache.get_mtimes(this.app.vault.getFiles());
+	}
+
+	/** Load the graph from the last session, if it was built by this version, with the same settings */
+	private async load_graph_cache() {
+		const timer = new Timer();
+
+		try {
+			const { adapter } = this.app.vault;
+			if (!(await adapter.exists(this.graph_cache_path))) return;
+
+			const cache = GraphCache.deserialize(
+				JSON.parse(await adapter.read(this.graph_cache_path)),
+				GraphCache.get_key(this.settings, this.manifest.version),
+			);
+
+			if (!cache.ok) {
+				log.info("load_graph_cache > discarding cache:", cache.error);
+				return;
+			}
+
+			this.graph = cache.data.graph;
+			this.rebuild_errors = cache.data.rebuild_errors;
+			this.graph_cache_mtimes = cache.data.mtimes;
+			this.graph_mtimes = { ...cache.data.mtimes };
+
+			log.debug(`load_graph_cache > took ${timer.elapsed_str()}ms`);
+		} catch (error) {
+			log.error("load_graph_cache error >", error);
+		}
+	}
+
+	private async save_graph_cache() {
+		this.graph_cache_timer = undefined;
+		const timer = new Timer();
+
+		try {
+			await this.app.vault.adapter.write(
+				this.graph_cache_path,
+				JSON.stringify(
+					GraphCache.serialize(this.graph, {
+						key: GraphCache.get_key(
+							this.settings,
+							this.manifest.version,
+						),
+						mtimes: this.graph_mtimes,
+						rebuild_errors: this.rebuild_errors,
+					}),
+				),
+			);
+
+			log.debug(`save_graph_cache > took ${timer.elapsed_str()}ms`);
+		} catch (error) {
+			log.error("save_graph_cache error >", error);
+		}
+	}
+
+	private queue_save_graph_cache() {
+		window.clearTimeout(this.graph_cache_timer);
+
+		this.graph_cache_timer = window.setTimeout(
+			() => this.save_graph_cache(),
+			GRAPH_CACHE_SAVE_DEBOUNCE_MS,
+		);
+	}
+
+	/** Bring the cached graph up to date by rebuilding the notes that changed since it was saved.
+	 * Falls back to rebuilding the whole graph if there's no cache, or if too much changed.
+	 */
+	private async reconcile_graph_cache() {
+		const cached_mtimes = this.graph_cache_mtimes;
+		this.graph_cache_mtimes = null;
+
+		if (!cached_mtimes) return await this.refresh();
+
+		const { changed, deleted } = GraphCache.diff_mtimes(
+			cached_mtimes,
+			this.get_file_mtimes(),
+		);
+		log.debug("reconcile_graph_cache >", { changed, deleted });
+
+		const changed_files = changed.map((path) =>
+			this.app.vault.getFileByPath(path),
+		);
+
+		// NOTE: Deleted notes, and non-markdown files (e.g. CSV files), can affect edges out of other notes
+		if (
+			deleted.length ||
+			changed.length > MAX_GRAPH_CACHE_CHANGED_FILES ||
+			changed_files.some((file) => file?.extension !== "md")
+		) {
+			return await this.refresh();
+		}
+
+		for (const file of changed_files) {
+			await this.refresh({
+				changed_file: file!,
+				redraw_page_views: false,
+				redraw_codeblocks: false,
+			});
+		}
+
+		await this.refresh({ rebuild_graph: false });
+	}
+
+	/** Rebuild the edges of a changed note once it has stopped changing for a while.
+	 * Does nothing unless the note_save trigger is on.
+	 */
+	private queue_changed_file(file: TFile) {
+		const { trigger, note_save_debounce_ms } =
+			this.settings.commands.rebuild_graph;
+		if (!trigger.note_save || file.extension !== "md") return;
+
+		window.clearTimeout(this.changed_file_timers.get(file.path));
+
+		this.changed_file_timers.set(
+			file.path,
+			window.setTimeout(async () => {
+				this.changed_file_timers.delete(file.path);
+
+				await this.refresh({ changed_file: file });
+			}, note_save_debounce_ms),
+		);
+	}
 
 	async loadSettings() {
 		this.settings = deep_merge_objects(
@@ -245,44 +517,81 @@ export default class BreadcrumbsPlugin extends Plugin {
 	 */
 	refresh = async (options?: {
 		rebuild_graph?: boolean;
+		/** Only rebuild the part of the graph affected by this file, instead of the whole graph */
+		changed_file?: TFile;
 		active_file_store?: boolean;
 		redraw_page_views?: boolean;
 		redraw_side_views?: true;
 		redraw_codeblocks?: boolean;
 	}) => {
 		// Rebuild the graph
-		if (options?.rebuild_graph !== false) {
+		if (options?.rebuild_graph !== false && options?.changed_file) {
+			// NOTE: Taken before rebuilding, so edits made during the rebuild still count as changed
+			const { mtime } = options.changed_file.stat;
+
+			const rebuild_results = await rebuild_graph_node(
+				this,
+				options.changed_file,
+			);
+
+			this.graph_mtimes[options.changed_file.path] = mtime;
+
+			this.rebuild_errors = merge_rebuild_errors(
+				this.rebuild_errors,
+				rebuild_results,
+				options.changed_file,
+			);
+			this.queue_save_graph_cache();
+
+			// NOTE: No notice here, this happens on every edit
+			log_rebuild_errors(rebuild_results);
+
+			rebuild_results.added_edges.forEach((edge) =>
+				trigger_event(this.app, BC_EVENTS.edge_added, edge),
+			);
+			rebuild_results.removed_edges.forEach((edge) =>
+				trigger_event(this.app, BC_EVENTS.edge_removed, edge),
+			);
+			trigger_event(this.app, BC_EVENTS.graph_rebuilt, {
+				graph: this.graph,
+				changed_file_path: options.changed_file.path,
+			});
+		} else if (options?.rebuild_graph !== false) {
 			const timer = new Timer();
 
 			const notice = this.settings.commands.rebuild_graph.notify
 				? new Notice("Rebuilding graph")
 				: null;
 
-			const rebuild_results = await rebuild_graph(this);
-			this.graph = rebuild_results.graph;
+			const mtimes = this.get_file_mtimes();
 
-			const explicit_edge_errors = rebuild_results.explicit_edge_results
-				.filter((result) => result.errors.length)
-				.reduce(
-					(acc, { source, errors }) => {
-						acc[source] = errors;
-						return acc;
-					},
-					{} as Record<string, BreadcrumbsError[]>,
-				);
+			const rebuild = await rebuild_graph(this, {
+				on_progress: (message) =>
+					notice?.setMessage(`Rebuilding graph: ${message}`),
+			});
 
-			const implied_edge_results = Object.fromEntries(
-				Object.entries(rebuild_results.implied_edge_results)
-					.filter(([_, errors]) => errors.length)
-					.map(([implied_kind, errors]) => [implied_kind, errors]),
+			// A newer refresh took over, and will do the redrawing
+			if (!rebuild.ok) {
+				log.debug("refresh > rebuild cancelled");
+				notice?.hide();
+				return;
+			}
+
+			const rebuild_results = rebuild.data;
+			this.graph = rebuild_results.graph;
+			this.graph_mtimes = mtimes;
+			this.rebuild_errors = merge_rebuild_errors(
+				this.rebuild_errors,
+				rebuild_results,
 			);
+			this.queue_save_graph_cache();
 
-			if (Object.keys(explicit_edge_errors).length) {
-				log.warn("explicit_edge_errors >", explicit_edge_errors);
-			}
-			if (Object.keys(implied_edge_results).length) {
-				log.warn("implied_edge_results >", implied_edge_results);
-			}
+			const { explicit_edge_errors, implied_edge_results } =
+				log_rebuild_errors(rebuild_results);
+
+			trigger_event(this.app, BC_EVENTS.graph_rebuilt, {
+				graph: this.graph,
+			});
 
 			notice?.setMessage(
 				[
@@ -335,6 +644,16 @@ export default class BreadcrumbsPlugin extends Plugin {
 				.forEach((leaf) => {
 					(leaf.view as TreeView).onOpen();
 				});
+			this.app.workspace
+				.getLeavesOfType(VIEW_IDS.graph)
+				.forEach((leaf) => {
+					(leaf.view as GraphView).onOpen();
+				});
+			this.app.workspace
+				.getLeavesOfType(VIEW_IDS.health)
+				.forEach((leaf) => {
+					(leaf.view as HealthView).onOpen();
+				});
 		}
 	};
 
@@ -0,0 +1,166 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { CanvasExport, type CanvasLayout } from "src/commands/canvas";
+import FieldGroupLabelsSettingItem from "src/components/settings/FieldGroupLabelsSettingItem.svelte";
+import { get_edge_sorter } from "src/graph/utils";
+import { log } from "src/logger";
+import type BreadcrumbsPlugin from "src/main";
+import { resolve_field_group_labels } from "src/utils/edge_fields";
+import { Paths } from "src/utils/paths";
+import { new_setting } from "src/utils/settings";
+
+export class ExportCanvasModal extends Modal {
+	plugin: BreadcrumbsPlugin;
+
+	start_node: string;
+	field_group_labels: string[];
+	depth = 3;
+	layout: CanvasLayout = "tree";
+	file_path: string;
+	update = true;
+
+	constructor(app: App, plugin: BreadcrumbsPlugin, start_node = "") {
+		super(app);
+
+		this.plugin = plugin;
+		this.start_node = start_node;
+		this.field_group_labels = [
+			...plugin.settings.views.side.tree.field_group_labels,
+		];
+		this.file_path = start_node
+			? Paths.drop_ext(start_node) + ".canvas"
+			: "breadcrumbs.canvas";
+	}
+
+	onOpen() {
+		const { contentEl, plugin } = this;
+
+		contentEl.createEl("h2", { text: "Export to Canvas" });
+
+		new_setting(contentEl, {
+			name: "Start note",
+			desc: "The note at the top of the canvas",
+			input: {
+				value: this.start_node,
+				placeholder: "folder/note.md",
+				cb: (value) =>
+					(this.start_node = Paths.normalise(
+						Paths.ensure_ext(value, "md"),
+					)),
+			},
+		});
+
+		new FieldGroupLabelsSettingItem({
+			target: contentEl,
+			props: {
+				field_group_labels: this.field_group_labels,
+				edge_field_groups: plugin.settings.edge_field_groups,
+			},
+		}).$on("select", (e) => {
+			this.field_group_labels = e.detail;
+		});
+
+		new_setting(contentEl, {
+			name: "Depth",
+			desc: "How many edges away from the start note to go",
+			input: {
+				value: this.depth.toString(),
+				cb: (value) => {
+					const depth = parseInt(value);
+					if (!isNaN(depth) && depth > 0) this.depth = depth;
+				},
+			},
+		});
+
+		new_setting(contentEl, {
+			name: "Layout",
+			desc: "A tree places each note once, under the first note that links to it. A DAG lays notes out in layers by distance from the start note",
+			select: {
+				options: CanvasExport.LAYOUTS,
+				value: this.layout,
+				cb: (value) => (this.layout = value),
+			},
+		});
+
+		new_setting(contentEl, {
+			name: "File path",
+			desc: "Where to write the canvas in your vault",
+			input: {
+				value: this.file_path,
+				cb: (value) => (this.file_path = value),
+			},
+		});
+
+		new_setting(contentEl, {
+			name: "Update existing canvas",
+			desc: "If the canvas already exists, update it in place. Notes keep their positions, and nodes or edges you added by hand are kept. Otherwise, the canvas is overwritten",
+			toggle: {
+				value: this.update,
+				cb: (value) => (this.update = value),
+			},
+		});
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText("Export")
+				.setCta()
+				.onClick(async () => {
+					if (await this.export()) this.close();
+				}),
+		);
+	}
+
+	async export() {
+		const { app, plugin, start_node } = this;
+
+		if (!plugin.graph.hasNode(start_node)) {
+			new Notice(`Start note not found in graph: ${start_node}`);
+			return false;
+		}
+
+		const tree = CanvasExport.build_tree(plugin.graph, start_node, {
+			depth: this.depth,
+			// NOTE: No groups selected means every field, like ExportGraphModal
+			fields: this.field_group_labels.length
+				? resolve_field_group_labels(
+						plugin.settings.edge_field_groups,
+						this.field_group_labels,
+					)
+				: undefined,
+			sort: get_edge_sorter(
+				plugin.settings.views.side.tree.edge_sort_id,
+				plugin.graph,
+			),
+		});
+
+		if (!tree.length) {
+			new Notice(`No edges found from ${start_node}`);
+			return false;
+		}
+
+		const file_path = Paths.normalise(
+			Paths.ensure_ext(this.file_path, "canvas"),
+		);
+
+		log.debug("export canvas >", file_path, this.layout);
+
+		const written = await CanvasExport.write(
+			app,
+			file_path,
+			CanvasExport.from_tree(start_node, tree, { layout: this.layout }),
+			{ update: this.update },
+		);
+
+		if (!written.ok) {
+			log.error("export canvas > error >", written.error);
+			new Notice(written.error);
+			return false;
+		}
+
+		new Notice(`Canvas saved to ${file_path}`);
+		return true;
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,170 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import {
+	GraphExport,
+	type ExportFormat,
+	type ExportOptions,
+} from "src/commands/export";
+import FieldGroupLabelsSettingItem from "src/components/settings/FieldGroupLabelsSettingItem.svelte";
+import { log } from "src/logger";
+import type BreadcrumbsPlugin from "src/main";
+import { resolve_field_group_labels } from "src/utils/edge_fields";
+import { Paths } from "src/utils/paths";
+import { new_setting } from "src/utils/settings";
+
+const EDGE_KINDS = ["all", "explicit", "implied"] as const;
+
+export class ExportGraphModal extends Modal {
+	plugin: BreadcrumbsPlugin;
+
+	format: ExportFormat = "graphml";
+	file_path = "breadcrumbs-graph";
+	edge_kind: (typeof EDGE_KINDS)[number] = "all";
+	field_group_labels: string[] = [];
+	options: ExportOptions = {};
+
+	constructor(app: App, plugin: BreadcrumbsPlugin) {
+		super(app);
+
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const { contentEl, plugin } = this;
+
+		contentEl.createEl("h2", { text: "Export Graph" });
+
+		new_setting(contentEl, {
+			name: "Format",
+			desc: "GraphML and GEXF open in Gephi, DOT in Graphviz. JSON is graphology's serialization format",
+			select: {
+				options: GraphExport.FORMATS,
+				value: this.format,
+				cb: (value) => (this.format = value),
+			},
+		});
+
+		new FieldGroupLabelsSettingItem({
+			target: contentEl,
+			props: {
+				field_group_labels: this.field_group_labels,
+				edge_field_groups: plugin.settings.edge_field_groups,
+			},
+		}).$on("select", (e) => {
+			this.field_group_labels = e.detail;
+		});
+
+		new_setting(contentEl, {
+			name: "Edges",
+			desc: "Which kinds of edges to export",
+			select: {
+				options: EDGE_KINDS,
+				value: this.edge_kind,
+				cb: (value) => (this.edge_kind = value),
+			},
+		});
+
+		new_setting(contentEl, {
+			name: "Start note",
+			desc: "Only export what's reachable from this note. Leave empty to export the whole graph",
+			input: {
+				value: this.options.start_node ?? "",
+				placeholder: "folder/note.md",
+				cb: (value) =>
+					(this.options.start_node = value
+						? Paths.normalise(Paths.ensure_ext(value, "md"))
+						: undefined),
+			},
+		});
+
+		new_setting(contentEl, {
+			name: "Depth",
+			desc: "How many edges away from the start note to go. Leave empty for no limit",
+			input: {
+				value: this.options.max_depth?.toString() ?? "",
+				cb: (value) => {
+					const depth = parseInt(value);
+					this.options.max_depth = isNaN(depth) ? undefined : depth;
+				},
+			},
+		});
+
+		new_setting(contentEl, {
+			name: "File path",
+			desc: "Where to write the export in your vault. The extension is added if missing. Existing files are overwritten",
+			input: {
+				value: this.file_path,
+				cb: (value) => (this.file_path = value),
+			},
+		});
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText("Export")
+				.setCta()
+				.onClick(async () => {
+					await this.export();
+					this.close();
+				}),
+		);
+	}
+
+	async export() {
+		const { app, plugin } = this;
+
+		const options: ExportOptions = {
+			...this.options,
+			fields: this.field_group_labels.length
+				? resolve_field_group_labels(
+						plugin.settings.edge_field_groups,
+						this.field_group_labels,
+					)
+				: undefined,
+			explicit:
+				this.edge_kind === "all"
+					? undefined
+					: this.edge_kind === "explicit",
+		};
+
+		if (options.start_node && !plugin.graph.hasNode(options.start_node)) {
+			new Notice(`Start note not found in graph: ${options.start_node}`);
+			return;
+		}
+
+		log.debug("export graph >", this.format, options);
+
+		const content = GraphExport.serialize(
+			plugin.graph,
+			this.format,
+			options,
+		);
+
+		const file_path = Paths.normalise(
+			Paths.drop_folder(this.file_path).includes(".")
+				? this.file_path
+				: Paths.ensure_ext(
+						this.file_path,
+						GraphExport.EXTENSIONS[this.format],
+					),
+		);
+
+		try {
+			const existing = app.vault.getFileByPath(file_path);
+			if (existing) {
+				await app.vault.modify(existing, content);
+			} else {
+				await app.vault.create(file_path, content);
+			}
+
+			new Notice(`Graph exported to ${file_path}`);
+		} catch (error) {
+			log.error("export graph > error writing file >", error);
+			new Notice(
+				`Error writing "${file_path}". ${error instanceof Error ? error.message : error}`,
+			);
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
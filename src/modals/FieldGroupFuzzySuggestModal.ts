@@ -0,0 +1,32 @@
+import { FuzzySuggestModal } from "obsidian";
+import type { EdgeFieldGroup } from "src/interfaces/settings";
+import type BreadcrumbsPlugin from "src/main";
+
+export class FieldGroupFuzzySuggester extends FuzzySuggestModal<EdgeFieldGroup> {
+	private plugin: BreadcrumbsPlugin;
+	private cb: (group: EdgeFieldGroup) => void;
+
+	constructor(
+		plugin: BreadcrumbsPlugin,
+		cb: (group: EdgeFieldGroup) => void,
+	) {
+		super(plugin.app);
+
+		this.cb = cb;
+		this.plugin = plugin;
+
+		this.setPlaceholder("Choose a field group...");
+	}
+
+	getItems() {
+		return this.plugin.settings.edge_field_groups;
+	}
+
+	getItemText(group: EdgeFieldGroup): string {
+		return `${group.label} (${group.fields.join(", ")})`;
+	}
+
+	onChooseItem(group: EdgeFieldGroup): void {
+		this.cb(group);
+	}
+}
@@ -0,0 +1,243 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import {
+	GraphImport,
+	type ImportEdge,
+	type ImportMapBy,
+	type SkippedImportEdge,
+} from "src/commands/import";
+import { dataview_plugin } from "src/external/dataview";
+import type { CrumbDestination } from "src/interfaces/settings";
+import { log } from "src/logger";
+import type BreadcrumbsPlugin from "src/main";
+import { group_by } from "src/utils/arrays";
+import { drop_crumbs } from "src/utils/drop_crumb";
+import { wait_for_metadata_change } from "src/utils/metadata_change";
+import { Paths } from "src/utils/paths";
+import { new_setting } from "src/utils/settings";
+
+const DESTINATIONS = ["frontmatter", "dataview-inline"] as const;
+
+/** Only show this many edges in the preview */
+const MAX_PREVIEW_EDGES = 50;
+
+export class ImportEdgesModal extends Modal {
+	plugin: BreadcrumbsPlugin;
+
+	file_path = "";
+	map_by: ImportMapBy = "path";
+	default_field: string;
+	destination: CrumbDestination = "frontmatter";
+
+	preview_el: HTMLElement | null = null;
+
+	constructor(app: App, plugin: BreadcrumbsPlugin) {
+		super(app);
+
+		this.plugin = plugin;
+		this.default_field = plugin.settings.edge_fields.at(0)?.label ?? "";
+	}
+
+	onOpen() {
+		const { contentEl, plugin } = this;
+
+		contentEl.createEl("h2", { text: "Import Edges" });
+
+		new_setting(contentEl, {
+			name: "File path",
+			desc: "A graphology JSON file, or a CSV file with `source`, `target` and (optionally) `field` columns",
+			input: {
+				value: this.file_path,
+				placeholder: "folder/graph.json",
+				cb: (value) => (this.file_path = value),
+			},
+		});
+
+		new_setting(contentEl, {
+			name: "Match nodes by",
+			desc: "How to find the note for each node in the file",
+			select: {
+				options: GraphImport.MAP_BY,
+				value: this.map_by,
+				cb: (value) => (this.map_by = value),
+			},
+		});
+
+		new_setting(contentEl, {
+			name: "Default field",
+			desc: "The field to use for edges that don't have one in the file",
+			select: {
+				options: plugin.settings.edge_fields.map((f) => f.label),
+				value: this.default_field,
+				cb: (value) => (this.default_field = value),
+			},
+		});
+
+		new_setting(contentEl, {
+			name: "Destination",
+			desc: "Where to write the typed links in each source note",
+			select: {
+				options: DESTINATIONS,
+				value: this.destination,
+				cb: (value) => (this.destination = value),
+			},
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Preview").onClick(async () => {
+					const planned = await this.plan();
+					if (planned) this.render_preview(planned);
+				}),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Import")
+					.setCta()
+					.onClick(async () => {
+						const planned = await this.plan();
+						if (!planned) return;
+
+						await this.import(planned.edges);
+						this.close();
+					}),
+			);
+
+		this.preview_el = contentEl.createDiv({ cls: "BC-import-preview" });
+	}
+
+	/** Read and parse the file, then map its edges onto notes */
+	async plan() {
+		const { app, plugin } = this;
+
+		const file_path = Paths.normalise(this.file_path.trim());
+		const file = app.vault.getFileByPath(file_path);
+		if (!file) {
+			new Notice(`File not found: ${file_path}`);
+			return null;
+		}
+
+		const format = GraphImport.FORMATS.find((f) => f === file.extension);
+		if (!format) {
+			new Notice(`Unsupported file type: .${file.extension}`);
+			return null;
+		}
+
+		const parsed = GraphImport.parse(
+			await app.vault.cachedRead(file),
+			format,
+		);
+		if (!parsed.ok) {
+			new Notice(`Could not read ${file_path}. ${parsed.error}`);
+			return null;
+		}
+
+		const planned = GraphImport.plan(plugin.graph, parsed.data, {
+			map_by: this.map_by,
+			default_field: this.default_field || undefined,
+			field_labels: plugin.settings.edge_fields.map((f) => f.label),
+		});
+
+		log.debug("import edges > planned >", planned);
+
+		return planned;
+	}
+
+	render_preview(planned: {
+		edges: ImportEdge[];
+		skipped: SkippedImportEdge[];
+	}) {
+		const { preview_el } = this;
+		if (!preview_el) return;
+
+		preview_el.empty();
+
+		preview_el.createEl("p", {
+			text: `${planned.edges.length} edges to add, ${planned.skipped.length} skipped`,
+		});
+
+		const list = preview_el.createEl("ul");
+		planned.edges.slice(0, MAX_PREVIEW_EDGES).forEach((edge) => {
+			list.createEl("li", {
+				text: `${edge.source_id} -${edge.field}-> ${edge.target_id}`,
+			});
+		});
+
+		if (planned.edges.length > MAX_PREVIEW_EDGES) {
+			preview_el.createEl("p", {
+				cls: "text-faint",
+				text: `...and ${planned.edges.length - MAX_PREVIEW_EDGES} more`,
+			});
+		}
+
+		if (planned.skipped.length) {
+			const details = preview_el.createEl("details");
+			details.createEl("summary", { text: "Skipped edges" });
+
+			const skipped_list = details.createEl("ul");
+			planned.skipped
+				.slice(0, MAX_PREVIEW_EDGES)
+				.forEach(({ edge, reason }) => {
+					skipped_list.createEl("li", {
+						cls: "text-warning",
+						text: `${edge.source} -${edge.field ?? "?"}-> ${edge.target}: ${reason}`,
+					});
+				});
+		}
+	}
+
+	async import(edges: ImportEdge[]) {
+		const { app, plugin } = this;
+
+		const by_source = group_by(edges, (edge) => edge.source_id);
+
+		let written = 0;
+		const metadata_changes: Promise<boolean>[] = [];
+
+		for (const [source_id, source_edges] of Object.entries(by_source)) {
+			const source_file = app.vault.getFileByPath(source_id);
+			if (!source_file || !source_edges) continue;
+
+			// Listen before writing, so the change can't be missed
+			const metadata_change = wait_for_metadata_change(
+				app.metadataCache,
+				source_id,
+				{ dataview: dataview_plugin.is_enabled(app) },
+			);
+
+			const added = await drop_crumbs(
+				plugin,
+				source_file,
+				source_edges.map((edge) => ({
+					source_id,
+					target_id: edge.target_id,
+					attr: { field: edge.field },
+					target_attr: {
+						aliases: plugin.graph.getNodeAttribute(
+							edge.target_id,
+							"aliases",
+						),
+					},
+				})),
+				{ destination: this.destination },
+			);
+
+			// NOTE: Links that were already there aren't written again
+			if (added) {
+				written += added;
+				metadata_changes.push(metadata_change);
+			}
+		}
+
+		new Notice(`Imported ${written} edges`);
+
+		// The imported edges only show up once the graph is rebuilt from the written notes
+		if (written) {
+			await Promise.all(metadata_changes);
+			await plugin.refresh();
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
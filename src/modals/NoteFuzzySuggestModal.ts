@@ -0,0 +1,29 @@
+import { FuzzySuggestModal } from "obsidian";
+import type BreadcrumbsPlugin from "src/main";
+
+/** Choose any note in the graph, including unresolved ones */
+export class NoteFuzzySuggester extends FuzzySuggestModal<string> {
+	private plugin: BreadcrumbsPlugin;
+	private cb: (node_id: string) => void;
+
+	constructor(plugin: BreadcrumbsPlugin, cb: (node_id: string) => void) {
+		super(plugin.app);
+
+		this.cb = cb;
+		this.plugin = plugin;
+
+		this.setPlaceholder("Choose a note...");
+	}
+
+	getItems() {
+		return this.plugin.graph.nodes();
+	}
+
+	getItemText(node_id: string): string {
+		return node_id;
+	}
+
+	onChooseItem(node_id: string): void {
+		this.cb(node_id);
+	}
+}
@@ -0,0 +1,26 @@
+import type BreadcrumbsPlugin from "src/main";
+import { new_setting } from "src/utils/settings";
+
+export const _add_settings_csv_note = (
+	plugin: BreadcrumbsPlugin,
+	containerEl: HTMLElement,
+) => {
+	new_setting(containerEl, {
+		name: "CSV Paths",
+		desc: "Comma-separated list of CSV files to read edges from. The first column holds the source notes, and the other columns are headed by edge fields. Markdown tables in notes with BC-table-note-field are read in the same way.",
+		input: {
+			value: plugin.settings.explicit_edge_sources.csv_note.paths.join(
+				", ",
+			),
+			placeholder: "relations.csv, folder/other.csv",
+			cb: async (value) => {
+				plugin.settings.explicit_edge_sources.csv_note.paths = value
+					.split(",")
+					.map((path) => path.trim())
+					.filter(Boolean);
+
+				await Promise.all([plugin.refresh(), plugin.saveSettings()]);
+			},
+		},
+	});
+};
@@ -0,0 +1,87 @@
+import { Notice } from "obsidian";
+import FieldGroupLabelsSettingItem from "src/components/settings/FieldGroupLabelsSettingItem.svelte";
+import { GraphLayout } from "src/graph/layout";
+import type BreadcrumbsPlugin from "src/main";
+import { new_setting } from "src/utils/settings";
+import { _add_settings_show_node_options } from "./ShowNodeOptions";
+
+const EDGE_KINDS = ["all", "explicit", "implied"] as const;
+
+export const _add_settings_graph_view = (
+	plugin: BreadcrumbsPlugin,
+	containerEl: HTMLElement,
+) => {
+	const redraw = () =>
+		Promise.all([
+			plugin.saveSettings(),
+			plugin.refresh({
+				redraw_side_views: true,
+				rebuild_graph: false,
+			}),
+		]);
+
+	new_setting(containerEl, {
+		name: "Depth",
+		desc: "How many edges away from the active note to go",
+		input: {
+			value: plugin.settings.views.side.graph.depth.toString(),
+			cb: async (value) => {
+				const int = parseInt(value);
+				if (isNaN(int) || int < 1) {
+					return new Notice("Depth must be a positive number");
+				}
+
+				plugin.settings.views.side.graph.depth = int;
+
+				await redraw();
+			},
+		},
+	});
+
+	new_setting(containerEl, {
+		name: "Layout",
+		desc: "Force-directed, or layered by distance from the active note",
+		select: {
+			options: GraphLayout.LAYOUTS,
+			value: plugin.settings.views.side.graph.layout,
+			cb: async (value) => {
+				plugin.settings.views.side.graph.layout = value;
+
+				await redraw();
+			},
+		},
+	});
+
+	new_setting(containerEl, {
+		name: "Edges",
+		desc: "Which kinds of edges to show",
+		select: {
+			options: EDGE_KINDS,
+			value: plugin.settings.views.side.graph.edge_kind,
+			cb: async (value) => {
+				plugin.settings.views.side.graph.edge_kind = value;
+
+				await redraw();
+			},
+		},
+	});
+
+	new FieldGroupLabelsSettingItem({
+		target: containerEl,
+		props: {
+			edge_field_groups: plugin.settings.edge_field_groups,
+			field_group_labels:
+				plugin.settings.views.side.graph.field_group_labels,
+		},
+	}).$on("select", async (e) => {
+		plugin.settings.views.side.graph.field_group_labels = e.detail;
+
+		await redraw();
+	});
+
+	_add_settings_show_node_options(plugin, containerEl, {
+		get: () => plugin.settings.views.side.graph.show_node_options,
+		set: (value) =>
+			(plugin.settings.views.side.graph.show_node_options = value),
+	});
+};
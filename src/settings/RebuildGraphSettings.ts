@@ -1,3 +1,4 @@
+import { Notice } from "obsidian";
 import type { BreadcrumbsSettings } from "src/interfaces/settings";
 import type BreadcrumbsPlugin from "src/main";
 import { new_setting } from "src/utils/settings";
@@ -38,4 +39,25 @@ export const _add_settings_rebuild_graph = (
 			},
 		},
 	});
+
+	new_setting(containerEl, {
+		name: "Note save delay",
+		desc: "When rebuilding on note save, wait this many milliseconds after the last change to a note before updating its edges",
+		input: {
+			value: plugin.settings.commands.rebuild_graph.note_save_debounce_ms.toString(),
+			cb: async (value) => {
+				const int = parseInt(value);
+				if (isNaN(int)) {
+					return new Notice("Delay must be a number");
+				} else if (int < 0) {
+					return new Notice("Delay must be a non-negative number");
+				}
+
+				plugin.settings.commands.rebuild_graph.note_save_debounce_ms =
+					int;
+
+				await plugin.saveSettings();
+			},
+		},
+	});
 };
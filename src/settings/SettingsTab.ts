@@ -1,13 +1,17 @@
 import { App, Notice, PluginSettingTab } from "obsidian";
 import type BreadcrumbsPlugin from "src/main";
 import EdgeFieldSettings from "../components/settings/EdgeFieldSettings.svelte";
+import InverseImpliedRelations from "../components/settings/InverseImpliedRelations.svelte";
+import SymmetricImpliedRelations from "../components/settings/SymmetricImpliedRelations.svelte";
 import TransitiveImpliedRelations from "../components/settings/TransitiveImpliedRelations.svelte";
 import { _add_settings_codeblocks } from "./CodeblockSettings";
+import { _add_settings_csv_note } from "./CSVNoteSettings";
 import { _add_settings_date_note } from "./DateNoteSettings";
 import { _add_settings_debug } from "./DebugSettings";
 import { _add_settings_dendron_note } from "./DendronNoteSettings";
 import { _add_settings_edge_field_suggestor } from "./EdgeFieldSuggestorSettings";
 import { _add_settings_freeze_implied_edges } from "./FreezeImpliedEdgesSettings";
+import { _add_settings_graph_view } from "./GraphViewSettings";
 import { _add_settings_trail_view } from "./GridSettings";
 import { _add_settings_johnny_decimal_note } from "./JohnnyDecimalSettings";
 import { _add_settings_list_index } from "./ListIndexSettings";
@@ -50,7 +54,12 @@ const make_details_el = (
 
 export class BreadcrumbsSettingTab extends PluginSettingTab {
 	plugin: BreadcrumbsPlugin;
-	components: (EdgeFieldSettings | TransitiveImpliedRelations)[] = [];
+	components: (
+		| EdgeFieldSettings
+		| TransitiveImpliedRelations
+		| InverseImpliedRelations
+		| SymmetricImpliedRelations
+	)[] = [];
 
 	constructor(app: App, plugin: BreadcrumbsPlugin) {
 		super(app, plugin);
@@ -86,6 +95,24 @@ export class BreadcrumbsSettingTab extends PluginSettingTab {
 			}),
 		);
 
+		this.components.push(
+			new InverseImpliedRelations({
+				props: { plugin },
+				target: make_details_el(containerEl, {
+					s: { text: "> Inverse" },
+				}).children,
+			}),
+		);
+
+		this.components.push(
+			new SymmetricImpliedRelations({
+				props: { plugin },
+				target: make_details_el(containerEl, {
+					s: { text: "> Symmetric" },
+				}).children,
+			}),
+		);
+
 		// Edge Sources
 		containerEl.createEl("hr");
 		containerEl.createEl("h3", { text: "Edge Sources" });
@@ -127,6 +154,12 @@ export class BreadcrumbsSettingTab extends PluginSettingTab {
 			}).children,
 		);
 
+		_add_settings_csv_note(
+			plugin,
+			make_details_el(containerEl, { s: { text: "> CSV Notes" } })
+				.children,
+		);
+
 		// Views
 		containerEl.createEl("hr");
 		containerEl.createEl("h3", { text: "Views" });
@@ -155,6 +188,11 @@ export class BreadcrumbsSettingTab extends PluginSettingTab {
 			make_details_el(containerEl, { s: { text: "> Tree" } }).children,
 		);
 
+		_add_settings_graph_view(
+			plugin,
+			make_details_el(containerEl, { s: { text: "> Graph" } }).children,
+		);
+
 		_add_settings_codeblocks(
 			plugin,
 			make_details_el(containerEl, { s: { text: "> Codeblocks" } })
@@ -328,6 +328,15 @@ export const migrate_old_settings = (settings: BreadcrumbsSettings) => {
 		delete old.dateNoteField;
 		delete old.dateNoteFormat;
 	}
+
+	/// CSV notes
+	if (old.CSVPaths !== undefined) {
+		settings.explicit_edge_sources.csv_note.paths = old.CSVPaths.split(",")
+			.map((path) => path.trim())
+			.filter(Boolean);
+
+		delete old.CSVPaths;
+	}
 	// !SECTION
 
 	// SECTION: Views
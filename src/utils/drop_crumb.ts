@@ -13,7 +13,10 @@ import {
 	group_projection,
 	remove_duplicates,
 } from "src/utils/arrays";
+import { Links } from "./links";
+import { resolve_relative_target_path } from "./obsidian";
 import { Paths } from "./paths";
+import { split_and_trim } from "./strings";
 
 const linkify_edge = (
 	plugin: BreadcrumbsPlugin,
@@ -36,6 +39,9 @@ const linkify_edge = (
 	}
 };
 
+/** Write the crumbs to destination_file as typed links.
+ * @returns The number of links written. Links already in the frontmatter aren't written again
+ */
 export const drop_crumbs = async (
 	plugin: BreadcrumbsPlugin,
 	destination_file: TFile,
@@ -45,7 +51,9 @@ export const drop_crumbs = async (
 	})[],
 	options: { destination: CrumbDestination | "none" },
 ) => {
-	if (!crumbs.length) return;
+	if (!crumbs.length) return 0;
+
+	let written = 0;
 
 	const links_by_field = group_projection(
 		group_by(crumbs, (e) => e.attr.field!),
@@ -80,10 +88,12 @@ export const drop_crumbs = async (
 
 					if (new_links.length !== existing_array.length) {
 						mutated = true;
+						written += new_links.length - existing_array.length;
 						frontmatter[field] = new_links;
 					}
 				} else {
 					mutated = true;
+					written += links.length;
 					frontmatter[field] = links;
 				}
 			});
@@ -113,7 +123,9 @@ export const drop_crumbs = async (
 			const dataview_fields = Object.entries(links_by_field)
 				.map(([field, links]) => {
 					if (!links?.length) return "";
-					else return `${field}:: ${links.join(", ")}`;
+
+					written += links.length;
+					return `${field}:: ${links.join(", ")}`;
 				})
 				.filter(Boolean);
 
@@ -132,4 +144,87 @@ export const drop_crumbs = async (
 			break;
 		}
 	}
+
+	return written;
+};
+
+/** Remove the links from a note's typed links (in frontmatter, and in whole-line dataview inline fields).
+ * The opposite of drop_crumbs. Links are compared by the path they resolve to, so aliases and subpaths don't matter.
+ * Returns the number of links removed.
+ */
+export const remove_crumbs = async (
+	plugin: BreadcrumbsPlugin,
+	source_file: TFile,
+	crumbs: { field: string; target_id: string }[],
+) => {
+	let removed = 0;
+
+	const targets_by_field = group_projection(
+		group_by(crumbs, (crumb) => crumb.field),
+		(field_crumbs) => new Set(field_crumbs.map((c) => c.target_id)),
+	);
+
+	const is_removed_link = (field: string, link: unknown) => {
+		if (typeof link !== "string") return false;
+
+		const linkpath = Links.parse_linkpath(link);
+		if (!linkpath) return false;
+
+		const [target_path] = resolve_relative_target_path(
+			plugin.app,
+			linkpath,
+			source_file.path,
+		);
+
+		const is_removed = targets_by_field[field]?.has(target_path) ?? false;
+		if (is_removed) removed++;
+
+		return is_removed;
+	};
+
+	await plugin.app.fileManager.processFrontMatter(
+		source_file,
+		(frontmatter: Record<string, unknown>) => {
+			Object.keys(targets_by_field).forEach((field) => {
+				const value = frontmatter[field];
+				if (value === undefined || value === null) return;
+
+				const kept = ensure_is_array(value).filter(
+					(link) => !is_removed_link(field, link),
+				);
+
+				if (kept.length) {
+					frontmatter[field] = Array.isArray(value) ? kept : kept[0];
+				} else {
+					delete frontmatter[field];
+				}
+			});
+		},
+	);
+
+	await plugin.app.vault.process(source_file, (content) =>
+		content
+			.split("\n")
+			.flatMap((line) => {
+				const match = line.match(/^(\s*)([^:]+?)::\s*(.*)$/);
+				if (!match || !targets_by_field[match[2]]) return [line];
+
+				const [, indent, field, value] = match;
+
+				// NOTE: Aliased wiki links can't contain commas, so splitting on them is safe enough
+				const links = split_and_trim(value);
+				const kept = links.filter(
+					(link) => !is_removed_link(field, link),
+				);
+
+				if (kept.length === links.length) return [line];
+				else if (!kept.length) return [];
+				else return [`${indent}${field}:: ${kept.join(", ")}`];
+			})
+			.join("\n"),
+	);
+
+	log.debug(`remove_crumbs > ${source_file.path} > removed ${removed}`);
+
+	return removed;
 };
@@ -1,3 +1,4 @@
+import { COLOURS } from "src/const";
 import type { BreadcrumbsSettings } from "src/interfaces/settings";
 import { remove_duplicates } from "./arrays";
 
@@ -10,3 +11,13 @@ export const resolve_field_group_labels = (
 			.filter((group) => field_group_labels.includes(group.label))
 			.flatMap((group) => group.fields),
 	);
+
+/** A colour per field, from its position in the settings. Undefined if the field doesn't exist */
+export const get_field_colour = (
+	edge_fields: BreadcrumbsSettings["edge_fields"],
+	field: string,
+) => {
+	const i = edge_fields.findIndex((f) => f.label === field);
+
+	return i === -1 ? undefined : COLOURS[i % COLOURS.length];
+};
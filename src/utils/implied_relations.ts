@@ -0,0 +1,46 @@
+import type { BCNodeAttributes } from "src/graph/MyMultiGraph";
+import type {
+	BreadcrumbsSettings,
+	ImpliedRelationCondition,
+} from "src/interfaces/settings";
+import { ensure_starts_with } from "./strings";
+
+type InverseRule = BreadcrumbsSettings["implied_relations"]["inverse"][number];
+type SymmetricRule =
+	BreadcrumbsSettings["implied_relations"]["symmetric"][number];
+
+export const get_inverse_rule_name = (
+	rule: Pick<InverseRule, "field" | "inverse_field">,
+) => `${rule.field} <-> ${rule.inverse_field}`;
+
+export const get_symmetric_rule_name = (rule: Pick<SymmetricRule, "field">) =>
+	rule.field;
+
+export const stringify_implied_relation_condition = (
+	condition: ImpliedRelationCondition,
+) => `${condition.node} has ${ensure_starts_with(condition.tag, "#")}`;
+
+/** Check if a node has the tag, or a nested tag under it.
+ * e.g. #person matches both #person and #person/friend
+ */
+export const has_node_tag = (node_attr: BCNodeAttributes, tag: string) => {
+	tag = ensure_starts_with(tag, "#").toLowerCase();
+
+	return (
+		node_attr.tags?.some((node_tag) => {
+			node_tag = node_tag.toLowerCase();
+
+			return node_tag === tag || node_tag.startsWith(tag + "/");
+		}) ?? false
+	);
+};
+
+/** Check if the nodes at either end of an implied edge satisfy _all_ of a rule's conditions */
+export const matches_implied_relation_conditions = (
+	nodes: { source: BCNodeAttributes; target: BCNodeAttributes },
+	conditions?: ImpliedRelationCondition[],
+) =>
+	!conditions ||
+	conditions.every((condition) =>
+		has_node_tag(nodes[condition.node], condition.tag),
+	);
@@ -42,7 +42,24 @@ const ify = (
 	}
 };
 
+const WIKI_LINK_REGEX = /^\s*!?\[\[([^\]|#]*)[^\]]*\]\]\s*$/;
+const MARKDOWN_LINK_REGEX = /^\s*!?\[[^\]]*\]\(<?([^)#>]*)[^)]*\)\s*$/;
+
+/** Get the (unresolved) path out of a single wiki or markdown link, without any subpath or alias.
+ * Returns null if the string isn't a link
+ */
+const parse_linkpath = (link: string) => {
+	const wiki = link.match(WIKI_LINK_REGEX);
+	if (wiki) return wiki[1].trim() || null;
+
+	const markdown = link.match(MARKDOWN_LINK_REGEX);
+	if (markdown) return decodeURI(markdown[1].trim()) || null;
+
+	return null;
+};
+
 export const Links = {
 	ify,
+	parse_linkpath,
 	resolve_to_absolute_path,
 };
@@ -0,0 +1,259 @@
+import type { CachedMetadata, Pos } from "obsidian";
+import type { IDataview } from "src/external/dataview/interfaces";
+import type { BreadcrumbsError } from "src/interfaces/graph";
+import { graph_build_fail, succ } from "./result";
+
+/** A list item in a list-note, in a shape shared by the Dataview and Obsidian branches */
+export type ListNoteItem = {
+	/** The raw list item text (without the list symbol, or task checkbox) */
+	text: string;
+	/** The (unresolved) path of the first link in the list item, if any */
+	link_path: string | undefined;
+	position: Pos;
+	children: ListNoteItem[];
+};
+
+/** An edge implied by a list-note. Paths are still unresolved */
+export type ListNoteEdge = {
+	source_path: string;
+	target_path: string;
+	field: string;
+};
+
+const LIST_SYMBOL_REGEX = /^\s*(?:[-+*]|\d+[.)])\s+(?:\[.\]\s+)?/;
+
+/** Link children to their parents by line number, since Obsidian and Dataview can't share object references */
+const link_children = (
+	items: ListNoteItem[],
+	get_parent_line: (item_i: number) => number | undefined,
+) => {
+	const items_by_line = new Map(
+		items.map((item) => [item.position.start.line, item]),
+	);
+
+	items.forEach((item, item_i) => {
+		const parent_line = get_parent_line(item_i);
+		if (parent_line === undefined) return;
+
+		items_by_line.get(parent_line)?.children.push(item);
+	});
+
+	return items;
+};
+
+const items_from_dataview = (page: IDataview.Page): ListNoteItem[] => {
+	const lists = page.file.lists.values;
+
+	const items = lists.map((list_item) => ({
+		text: list_item.text,
+		link_path: list_item.outlinks.at(0)?.path,
+		position: list_item.position,
+		children: [],
+	}));
+
+	// Invert Dataview's children, so that both branches go through link_children
+	const parent_lines = new Map<number, number>();
+	lists.forEach((list_item) => {
+		list_item.children.forEach((child) => {
+			parent_lines.set(
+				child.position.start.line,
+				list_item.position.start.line,
+			);
+		});
+	});
+
+	return link_children(items, (item_i) =>
+		parent_lines.get(items[item_i].position.start.line),
+	);
+};
+
+/** Obsidian's cache only has the positions of list items and links, so we need the note's content to get the text */
+const items_from_obsidian = (
+	cache: CachedMetadata,
+	content: string,
+	/** The path of the list-note itself, which subpath-only links (e.g. [[#heading]]) point to */
+	path: string,
+): ListNoteItem[] => {
+	const list_items = (cache.listItems ?? [])
+		.slice()
+		.sort((a, b) => a.position.start.offset - b.position.start.offset);
+
+	const links = [...(cache.links ?? []), ...(cache.embeds ?? [])].sort(
+		(a, b) => a.position.start.offset - b.position.start.offset,
+	);
+
+	const items = list_items.map((list_item, list_item_i) => {
+		const { start, end } = list_item.position;
+
+		// NOTE: Don't look past the start of the next list item, in case a parent's position includes its children
+		const end_offset = Math.min(
+			end.offset,
+			list_items.at(list_item_i + 1)?.position.start.offset ?? Infinity,
+		);
+
+		const link = links.find(
+			(link) =>
+				link.position.start.offset >= start.offset &&
+				link.position.start.offset < end_offset,
+		);
+
+		return {
+			text: content
+				.slice(start.offset, end_offset)
+				.replace(LIST_SYMBOL_REGEX, "")
+				.trimEnd(),
+			link_path: link ? link.link.split("#")[0] || path : undefined,
+			position: list_item.position,
+			children: [],
+		};
+	});
+
+	// NOTE: Obsidian uses a negative parent for top-level items
+	return link_children(items, (item_i) => {
+		const parent = list_items[item_i].parent;
+		return parent < 0 ? undefined : parent;
+	});
+};
+
+// Fortmat: `field [[note]]` (no -+* prefix)
+// NOTE: The char ranges in the capture group need to align with the allowed chars in a BC field
+const FIELD_OVERRIDE_REGEX = /^\s*([-\w\s]+)\b/;
+
+/** Check if a given list item tries to override the note's list-note field.
+ * If it does, resolve the field and return it. If not, return undefined to indicate to use the default.
+ */
+const resolve_field_override = (
+	field_labels: Set<string>,
+	list_item: ListNoteItem,
+	path: string,
+) => {
+	const field = list_item.text.match(FIELD_OVERRIDE_REGEX)?.[1];
+
+	// No override, use the list_note_info field
+	if (!field) {
+		return succ(undefined);
+	} else if (!field_labels.has(field)) {
+		return graph_build_fail({
+			path,
+			code: "invalid_field_value",
+			message: `Field override is not a valid BC field: ${field}. Line: ${list_item.position.start.line}`,
+		});
+	} else {
+		return succ({ field });
+	}
+};
+
+/** Find the next list item on the same level as the given one.
+ * But make sure there isn't a higher-level list item in between
+ * e.g.
+ * - A
+ *   - B
+ *   - C
+ * - D
+ *   - E
+ *
+ * If I'm at B, I need to find C, but not D
+ */
+const find_neighbour = (items: ListNoteItem[], source_item_i: number) => {
+	const source_item = items[source_item_i];
+
+	for (let i = source_item_i + 1; i < items.length; i++) {
+		const item = items[i];
+
+		if (item.position.start.col < source_item.position.start.col) {
+			return;
+		} else if (item.position.start.col === source_item.position.start.col) {
+			return item;
+		}
+	}
+};
+
+/** Work out which edges a list-note implies, regardless of which branch its items came from */
+const get_edges = (
+	items: ListNoteItem[],
+	list_note: {
+		path: string;
+		field: string;
+		exclude_index: boolean;
+		neighbour_field: string | undefined;
+	},
+	field_labels: Set<string>,
+) => {
+	const edges: ListNoteEdge[] = [];
+	const errors: BreadcrumbsError[] = [];
+
+	// There are two possible approaches here. The list is represented both flat and recursively
+	// 1. We could write some fancy recursive function to handle each item and its children
+	// 2. We could just loop over each item, treating it as a list item with one level of children
+	items.forEach((source_item, source_item_i) => {
+		// If there are no links on the line, ignore it.
+		if (!source_item.link_path) return;
+
+		// Add the edge from the list_note itself, to the top-level list_items (if it's not excluded)
+		// This works for all top-level list-items, not just the first :)
+		if (!list_note.exclude_index && source_item.position.start.col === 0) {
+			// Override top-level field
+			const source_override_field = resolve_field_override(
+				field_labels,
+				source_item,
+				list_note.path,
+			);
+
+			if (!source_override_field.ok) {
+				errors.push(source_override_field.error);
+				return;
+			}
+
+			edges.push({
+				source_path: list_note.path,
+				target_path: source_item.link_path,
+				field: source_override_field.data?.field ?? list_note.field,
+			});
+		}
+
+		if (list_note.neighbour_field) {
+			const neighbour_link_path = find_neighbour(
+				items,
+				source_item_i,
+			)?.link_path;
+
+			// NOTE: Currently no support for field overrides for neighbour-fields
+			if (neighbour_link_path) {
+				edges.push({
+					source_path: source_item.link_path,
+					target_path: neighbour_link_path,
+					field: list_note.neighbour_field,
+				});
+			}
+		}
+
+		source_item.children.forEach((target_item) => {
+			if (!target_item.link_path) return;
+
+			const target_override_field = resolve_field_override(
+				field_labels,
+				target_item,
+				list_note.path,
+			);
+
+			if (!target_override_field.ok) {
+				errors.push(target_override_field.error);
+				return;
+			}
+
+			edges.push({
+				source_path: source_item.link_path!,
+				target_path: target_item.link_path,
+				field: target_override_field.data?.field ?? list_note.field,
+			});
+		});
+	});
+
+	return { edges, errors };
+};
+
+export const ListNote = {
+	items_from_dataview,
+	items_from_obsidian,
+	get_edges,
+};
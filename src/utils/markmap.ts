@@ -1 +1,190 @@
-export const Markmap = {};
+import { MARKMAP_VIEWER_IDS } from "src/const/views";
+import type { BCNodeAttributes, EdgeAttribute } from "src/graph/MyMultiGraph";
+import type { EdgeTree } from "src/graph/traverse";
+import { stringify_node } from "src/graph/utils";
+import type { ShowNodeOptions } from "src/interfaces/settings";
+import { untyped_pick } from "./objects";
+import { url_search_params } from "./url";
+
+/** A node of the map, as markmap renders it. Same shape as markmap's IPureNode */
+export type MarkmapNode = {
+	/** The HTML to show */
+	content: string;
+	children: MarkmapNode[];
+};
+
+/** What the exported HTML passes to the bundled viewer. See src/utils/markmap_viewer.ts */
+export type MarkmapViewerData = {
+	root: MarkmapNode;
+	/** Only show the first level of the map when it's first rendered */
+	collapse: boolean;
+};
+
+type MarkmapOptions = {
+	/** Only show the first level of the map when it's first rendered */
+	collapse?: boolean;
+	show_attributes?: EdgeAttribute[];
+	show_node_options?: ShowNodeOptions;
+	/** The URL each node links to */
+	get_node_href: (id: string) => string;
+	/** Colour each node by the field of the edge pointing to it */
+	get_field_colour?: (field: string) => string | undefined;
+};
+
+/** Escape characters that would break out of the link text */
+const escape_text = (text: string) => text.replace(/([[\]\\<>*_`])/g, "\\$1");
+
+const escape_html = (text: string) =>
+	text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+
+const build_node = (
+	id: string,
+	attr: BCNodeAttributes,
+	options: MarkmapOptions,
+) => {
+	const display = stringify_node(id, attr, {
+		show_node_options: options.show_node_options,
+	});
+
+	// NOTE: Angle brackets allow spaces in the destination
+	return `[${escape_text(display)}](<${options.get_node_href(id)}>)`;
+};
+
+const build_items = (tree: EdgeTree[], options: MarkmapOptions): string =>
+	tree
+		.map(({ edge, depth, children }) => {
+			const link = build_node(edge.target_id, edge.target_attr, options);
+			const colour = options.get_field_colour?.(edge.attr.field);
+
+			const attrs = options.show_attributes?.length
+				? ` (${url_search_params(
+						untyped_pick(edge.attr, options.show_attributes),
+						{ trim_lone_param: true },
+					)})`
+				: "";
+
+			return (
+				"\t".repeat(depth) +
+				"- " +
+				(colour
+					? `<span style="color: ${colour}">${link}</span>`
+					: link) +
+				attrs +
+				"\n" +
+				build_items(children, options)
+			);
+		})
+		.join("");
+
+/** Build markmap markdown from an EdgeTree, with the root note as the heading */
+const from_tree = (
+	root: { id: string; attr: BCNodeAttributes },
+	tree: EdgeTree[],
+	options: MarkmapOptions,
+) => {
+	const lines: string[] = [];
+
+	if (options.collapse) {
+		lines.push("---", "markmap:", "  initialExpandLevel: 1", "---", "");
+	}
+
+	lines.push(`# ${build_node(root.id, root.attr, options)}`, "");
+
+	lines.push(build_items(tree, options));
+
+	return lines.join("\n");
+};
+
+const build_node_html = (
+	id: string,
+	attr: BCNodeAttributes,
+	options: MarkmapOptions,
+) => {
+	const display = stringify_node(id, attr, {
+		show_node_options: options.show_node_options,
+	});
+
+	return `<a href="${escape_html(options.get_node_href(id))}">${escape_html(display)}</a>`;
+};
+
+const build_data_children = (
+	tree: EdgeTree[],
+	options: MarkmapOptions,
+): MarkmapNode[] =>
+	tree.map(({ edge, children }) => {
+		const link = build_node_html(edge.target_id, edge.target_attr, options);
+		const colour = options.get_field_colour?.(edge.attr.field);
+
+		const attrs = options.show_attributes?.length
+			? ` (${escape_html(
+					url_search_params(
+						untyped_pick(edge.attr, options.show_attributes),
+						{ trim_lone_param: true },
+					),
+				)})`
+			: "";
+
+		return {
+			content:
+				(colour
+					? `<span style="color: ${escape_html(colour)}">${link}</span>`
+					: link) + attrs,
+			children: build_data_children(children, options),
+		};
+	});
+
+/** The same map as from_tree, but as the nodes markmap renders, for the exported HTML */
+const to_data = (
+	root: { id: string; attr: BCNodeAttributes },
+	tree: EdgeTree[],
+	options: MarkmapOptions,
+): MarkmapViewerData => ({
+	root: {
+		content: build_node_html(root.id, root.attr, options),
+		children: build_data_children(tree, options),
+	},
+	collapse: options.collapse ?? false,
+});
+
+/** Stop inlined code from closing the <script> tag it's in */
+const escape_script = (code: string) =>
+	code.replace(/<\/script/gi, "<\\/script");
+
+/** A single, standalone HTML file that renders the map in any browser, offline.
+ * `viewer_script` is the bundled markmap viewer (see src/utils/markmap_viewer.ts), inlined so nothing is loaded from the network
+ */
+const to_html = (
+	data: MarkmapViewerData,
+	options: { title: string; viewer_script: string },
+) =>
+	`<!doctype html>
+<html>
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escape_html(options.title)}</title>
+<style>
+html, body, #${MARKMAP_VIEWER_IDS.svg} { margin: 0; width: 100%; height: 100%; }
+</style>
+</head>
+<body>
+<svg id="${MARKMAP_VIEWER_IDS.svg}"></svg>
+<script type="application/json" id="${MARKMAP_VIEWER_IDS.data}">
+${escape_script(JSON.stringify(data))}
+</script>
+<script>
+${escape_script(options.viewer_script)}
+</script>
+</body>
+</html>
+`;
+
+export const Markmap = {
+	from_tree,
+	to_data,
+	to_html,
+};
@@ -0,0 +1,15 @@
+// NOTE: This is the entry point of the script inlined into exported markmap HTML, bundled on its own by esbuild.config.mjs.
+//   It runs in any browser, outside Obsidian, so nothing it imports can touch obsidian
+import { Markmap } from "markmap-view";
+import { MARKMAP_VIEWER_IDS } from "src/const/views";
+import type { MarkmapViewerData } from "./markmap";
+
+const data = JSON.parse(
+	document.getElementById(MARKMAP_VIEWER_IDS.data)!.textContent!,
+) as MarkmapViewerData;
+
+Markmap.create(
+	`#${MARKMAP_VIEWER_IDS.svg}`,
+	data.collapse ? { initialExpandLevel: 1 } : undefined,
+	data.root,
+);
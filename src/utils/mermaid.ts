@@ -1,10 +1,13 @@
+import { COLOURS } from "src/const";
+import type { ExplicitEdgeSource } from "src/const/graph";
 import type {
 	BCEdge,
 	BCEdgeAttributes,
 	BCNodeAttributes,
 	EdgeAttribute,
 } from "src/graph/MyMultiGraph";
-import { remove_duplicates_by } from "./arrays";
+import type { EdgeField } from "src/interfaces/settings";
+import { group_by, remove_duplicates_by } from "./arrays";
 import { remove_nullish_keys, untyped_pick } from "./objects";
 import { url_search_params } from "./url";
 
@@ -30,16 +33,67 @@ const MERMAID_CURVE_STYLES = [
 ] as const;
 type MermaidCurveStyle = (typeof MERMAID_CURVE_STYLES)[number];
 
+/** Formats a diagram can be saved to the vault as. See MermaidImage */
+const MERMAID_IMAGE_FORMATS = ["svg", "png"] as const;
+type MermaidImageFormat = (typeof MERMAID_IMAGE_FORMATS)[number];
+
+const MERMAID_ARROW_STYLES = ["solid", "dotted", "thick"] as const;
+type MermaidArrowStyle = (typeof MERMAID_ARROW_STYLES)[number];
+
+/** The arrow for each style, when pointing one way, and when opposing edges were collapsed */
+const ARROWS: Record<
+	MermaidArrowStyle,
+	{ directed: string; collapsed: string }
+> = {
+	solid: { directed: "-->", collapsed: "---" },
+	dotted: { directed: "-.->", collapsed: "-.-" },
+	thick: { directed: "==>", collapsed: "===" },
+};
+
+/** The shape of a node, based on the source of the edge that added it to the diagram */
+const NODE_SHAPES: Record<ExplicitEdgeSource, [string, string]> = {
+	typed_link: ["(", ")"],
+	tag_note: ["{{", "}}"],
+	list_note: ["[", "]"],
+	dendron_note: ["[/", "/]"],
+	johnny_decimal_note: ["[\\", "\\]"],
+	dataview_note: ["[(", ")]"],
+	date_note: ["((", "))"],
+	folder_note: ["[[", "]]"],
+	regex_note: [">", "]"],
+	csv_note: ["[/", "\\]"],
+	traverse_note: ["([", "])"],
+};
+
 type MermaidEdge = {
 	source_i: number;
 	target_i: number;
-	arrow: string;
+	style: MermaidArrowStyle;
+	colour?: string;
+	/** Whether an opposing edge was collapsed into this one */
+	collapsed: boolean;
 	attr: BCEdgeAttributes;
 	collapsed_attr: Record<string, Set<string>>;
 };
 
-const build_arrow = (e: { attr: Pick<BCEdgeAttributes, "explicit"> }) =>
-	e.attr.explicit ? "-->" : "-.->";
+/** Implied edges are always dotted, so they stand out from explicit ones. The colour applies to both */
+const build_edge_style = (
+	attr: Pick<BCEdgeAttributes, "explicit" | "field">,
+	edge_fields?: EdgeField[],
+): Pick<MermaidEdge, "style" | "colour"> => {
+	const field_style = edge_fields?.find(
+		(f) => f.label === attr.field,
+	)?.mermaid;
+
+	return {
+		style: attr.explicit ? (field_style?.arrow ?? "solid") : "dotted",
+		colour: field_style?.colour,
+	};
+};
+
+/** Mermaid class names can't contain spaces, slashes, etc. */
+const build_class_name = (value: string) =>
+	"BC-class-" + value.replace(/^#/, "").replace(/[^\w-]/g, "_");
 
 const build_attrs = (
 	attr: Record<string, string>,
@@ -66,6 +120,17 @@ const from_edges = (
 		show_attributes?: EdgeAttribute[];
 		collapse_opposing_edges?: false;
 		get_node_label?: (id: string, attr: BCNodeAttributes) => string;
+		/** Arrow styles and colours per field */
+		edge_fields?: EdgeField[];
+		/** Values to build a classDef from, e.g. the tags of the node */
+		get_node_classes?: (id: string, attr: BCNodeAttributes) => string[];
+		/** The subgraph to put the node in, if any */
+		get_node_group?: (
+			id: string,
+			attr: BCNodeAttributes,
+		) => string | undefined;
+		/** Shape nodes by the source of the first explicit edge that points to them */
+		shape_by_source?: boolean;
 		click?:
 			| { method: "class" }
 			| { method: "callback"; callback_name: string }
@@ -93,6 +158,15 @@ const from_edges = (
 		`${resolved.kind} ${resolved.direction}`,
 	];
 
+	const node_sources = new Map<string, ExplicitEdgeSource>();
+	if (resolved.shape_by_source) {
+		edges.forEach((e) => {
+			if (e.attr.explicit && !node_sources.has(e.target_id)) {
+				node_sources.set(e.target_id, e.attr.source);
+			}
+		});
+	}
+
 	const node_map = remove_duplicates_by(
 		// NOTE: This is _pretty_ inefficient, but necessary.
 		// If we just take all unique target_ids, we miss source nodes that don't have any incoming edges.
@@ -109,13 +183,39 @@ const from_edges = (
 				label:
 					resolved.get_node_label?.(node.path, node.attr) ??
 					node.path,
+				group: resolved.get_node_group?.(node.path, node.attr),
+				shape: NODE_SHAPES[node_sources.get(node.path) ?? "typed_link"],
 			}),
-		new Map<string, { i: number; label: string; attr: BCNodeAttributes }>(),
+		new Map<
+			string,
+			{
+				i: number;
+				label: string;
+				attr: BCNodeAttributes;
+				group?: string;
+				shape: [string, string];
+			}
+		>(),
 	);
 
-	// Declare the labeled nodes
-	node_map.forEach((node) => {
-		lines.push(`\t${node.i}("${node.label}")`);
+	const nodes = [...node_map.values()];
+	const build_node = (node: (typeof nodes)[number]) =>
+		`${node.i}${node.shape[0]}"${node.label}"${node.shape[1]}`;
+
+	// Declare the labeled nodes, then the subgraphs of grouped nodes
+	nodes
+		.filter((node) => node.group === undefined)
+		.forEach((node) => lines.push(`\t${build_node(node)}`));
+
+	Object.entries(
+		group_by(
+			nodes.filter((node) => node.group !== undefined),
+			(node) => node.group!,
+		),
+	).forEach(([group, group_nodes], group_i) => {
+		lines.push(`\tsubgraph G${group_i} ["${group}"]`);
+		group_nodes?.forEach((node) => lines.push(`\t\t${build_node(node)}`));
+		lines.push("\tend");
 	});
 
 	lines.push("");
@@ -145,8 +245,9 @@ const from_edges = (
 			mermaid_edges.push({
 				source_i,
 				target_i,
-				arrow: build_arrow(edge),
+				collapsed: false,
 				attr: edge.attr,
+				...build_edge_style(edge.attr, resolved.edge_fields),
 				collapsed_attr: Object.fromEntries(
 					resolved.show_attributes?.map((attr) => [
 						attr,
@@ -161,8 +262,15 @@ const from_edges = (
 			// If there is an opposing edge, collapse them into a single edge
 			const existing = mermaid_edges[opposing_edge_i];
 
-			existing.arrow =
-				edge.attr.explicit || existing.attr.explicit ? "---" : "-.-";
+			existing.collapsed = true;
+
+			// Explicit edges take precedence over implied ones
+			if (!existing.attr.explicit && edge.attr.explicit) {
+				Object.assign(
+					existing,
+					build_edge_style(edge.attr, resolved.edge_fields),
+				);
+			}
 
 			resolved.show_attributes?.forEach((attr) => {
 				existing.collapsed_attr[attr].add(
@@ -174,22 +282,61 @@ const from_edges = (
 	}
 
 	// Add the edges
-	mermaid_edges.forEach(({ arrow, collapsed_attr, source_i, target_i }) => {
-		const attrs = build_attrs(
-			Object.fromEntries(
-				Object.entries(collapsed_attr).map(([key, set]) => [
-					key,
-					[...set.values()].join("|"),
-				]),
-			),
-			resolved.show_attributes,
-		);
+	mermaid_edges.forEach(
+		({ style, collapsed, collapsed_attr, source_i, target_i }) => {
+			const attrs = build_attrs(
+				Object.fromEntries(
+					Object.entries(collapsed_attr).map(([key, set]) => [
+						key,
+						[...set.values()].join("|"),
+					]),
+				),
+				resolved.show_attributes,
+			);
+
+			const arrow = ARROWS[style][collapsed ? "collapsed" : "directed"];
+
+			lines.push(`\t${source_i} ${arrow}${attrs} ${target_i}`);
+		},
+	);
 
-		lines.push(`\t${source_i} ${arrow}${attrs} ${target_i}`);
+	// Colour the edges, by their index in the order they were added
+	Object.entries(
+		group_by(
+			mermaid_edges
+				.map((edge, i) => ({ i, colour: edge.colour }))
+				.filter((edge) => edge.colour),
+			(edge) => edge.colour!,
+		),
+	).forEach(([colour, coloured]) => {
+		lines.push(
+			`\tlinkStyle ${coloured?.map((e) => e.i)} stroke:${colour},color:${colour}`,
+		);
 	});
 
 	lines.push("");
 
+	if (resolved.get_node_classes) {
+		const class_nodes = new Map<string, number[]>();
+
+		node_map.forEach((node, path) => {
+			resolved.get_node_classes!(path, node.attr).forEach((value) => {
+				const name = build_class_name(value);
+				class_nodes.set(name, [
+					...(class_nodes.get(name) ?? []),
+					node.i,
+				]);
+			});
+		});
+
+		[...class_nodes.entries()].forEach(([name, node_is], i) => {
+			lines.push(
+				`\tclassDef ${name} stroke:${COLOURS[i % COLOURS.length]},stroke-width:2px`,
+				`\tclass ${node_is} ${name}`,
+			);
+		});
+	}
+
 	const active_note_i = resolved.active_node_id
 		? node_map.get(resolved.active_node_id)?.i
 		: undefined;
@@ -200,8 +347,6 @@ const from_edges = (
 
 	switch (resolved.click?.method) {
 		case "class": {
-			const nodes = [...node_map.values()];
-
 			if (nodes.length) {
 				lines.push(
 					`\tclass ${nodes.filter((n) => n.i !== active_note_i).map((n) => n.i)} internal-link`,
@@ -287,9 +432,13 @@ export const Mermaid = {
 	RENDERERS: MERMAID_RENDERER,
 	DIRECTIONS: MERMAID_DIRECTIONS,
 	CURVE_STYLES: MERMAID_CURVE_STYLES,
+	ARROW_STYLES: MERMAID_ARROW_STYLES,
+	IMAGE_FORMATS: MERMAID_IMAGE_FORMATS,
 };
 
 export type Mermaid = {
 	Renderer: MermaidRenderer;
 	Direction: MermaidDirection;
+	ImageFormat: MermaidImageFormat;
+	ArrowStyle: MermaidArrowStyle;
 };
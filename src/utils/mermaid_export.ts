@@ -0,0 +1,60 @@
+import type { App } from "obsidian";
+import type { Mermaid } from "./mermaid";
+import { Paths } from "./paths";
+import { hash_string } from "./strings";
+
+type ImageFormat = Mermaid["ImageFormat"];
+
+/** Next to the note the diagram is in, named after the note, and the codeblock's title.
+ * Untitled codeblocks are told apart by a hash of their source, so each one gets its own image,
+ *   and the name only changes when the codeblock does
+ */
+const get_image_path = (
+	source_path: string,
+	format: ImageFormat,
+	codeblock: { title?: string; source: string },
+) =>
+	Paths.sibling_export_path(
+		source_path,
+		codeblock.title ||
+			`Breadcrumbs ${hash_string(codeblock.source.trim())}`,
+		format,
+	);
+
+const same_bytes = (a: ArrayBuffer, b: ArrayBuffer) => {
+	if (a.byteLength !== b.byteLength) return false;
+
+	const [a_bytes, b_bytes] = [new Uint8Array(a), new Uint8Array(b)];
+
+	return a_bytes.every((byte, i) => byte === b_bytes[i]);
+};
+
+/** Write an SVG (string) or PNG (bytes) to the vault.
+ * Existing images are only touched if their contents changed, so syncing and file watchers stay quiet.
+ * @returns Whether the file was written
+ */
+const write_image = async (
+	app: App,
+	path: string,
+	data: string | ArrayBuffer,
+) => {
+	const existing = app.vault.getFileByPath(path);
+
+	if (typeof data === "string") {
+		if (!existing) await app.vault.create(path, data);
+		else if ((await app.vault.read(existing)) === data) return false;
+		else await app.vault.modify(existing, data);
+	} else {
+		if (!existing) await app.vault.createBinary(path, data);
+		else if (same_bytes(await app.vault.readBinary(existing), data)) {
+			return false;
+		} else await app.vault.modifyBinary(existing, data);
+	}
+
+	return true;
+};
+
+export const MermaidExport = {
+	get_image_path,
+	write_image,
+};
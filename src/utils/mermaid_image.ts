@@ -0,0 +1,126 @@
+import { loadMermaid, type App } from "obsidian";
+import type { Result } from "src/interfaces/result";
+import { log } from "src/logger";
+import type { Mermaid } from "./mermaid";
+import { MermaidExport } from "./mermaid_export";
+import { fail, succ } from "./result";
+
+type ImageFormat = Mermaid["ImageFormat"];
+
+/** Scale up PNGs, so they aren't blurry on high-DPI screens */
+const PNG_SCALE = 2;
+
+/** Canvas can't draw the <foreignObject> HTML labels mermaid uses by default,
+ * so PNGs are rendered with plain SVG text labels instead.
+ */
+const PLAIN_LABELS_INIT = `%%{ init: { "htmlLabels": false, "flowchart": { "htmlLabels": false } } }%%`;
+
+/** Render mermaid code to an SVG string with Obsidian's bundled mermaid. Nothing leaves the device.
+ * The same id gives the same SVG for the same code.
+ */
+const render_svg = async (
+	id: string,
+	code: string,
+): Promise<Result<string, string>> => {
+	try {
+		const mermaid = await loadMermaid();
+
+		const { svg } = await mermaid.render(id, code);
+
+		return succ(svg as string);
+	} catch (error) {
+		log.error("render_svg > error >", error);
+
+		return fail(error instanceof Error ? error.message : String(error));
+	}
+};
+
+/** Draw an SVG onto a canvas, and encode it as a PNG */
+const svg_to_png = (svg: string) =>
+	new Promise<ArrayBuffer>((resolve, reject) => {
+		const svg_el = new DOMParser().parseFromString(
+			svg,
+			"image/svg+xml",
+		).documentElement;
+
+		const view_box = svg_el
+			.getAttribute("viewBox")
+			?.split(/[\s,]+/)
+			.map(Number);
+
+		const [width, height] =
+			view_box?.length === 4
+				? [view_box[2], view_box[3]]
+				: [
+						parseFloat(svg_el.getAttribute("width") ?? "800"),
+						parseFloat(svg_el.getAttribute("height") ?? "600"),
+					];
+
+		const image = new Image();
+
+		image.onerror = () => reject(new Error("Could not load the SVG"));
+		image.onload = () => {
+			const canvas = document.createElement("canvas");
+			canvas.width = Math.ceil(width * PNG_SCALE);
+			canvas.height = Math.ceil(height * PNG_SCALE);
+
+			const ctx = canvas.getContext("2d");
+			if (!ctx)
+				return reject(new Error("Could not get a canvas context"));
+
+			ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+			canvas.toBlob((blob) => {
+				if (!blob) reject(new Error("Could not encode the PNG"));
+				else blob.arrayBuffer().then(resolve, reject);
+			}, "image/png");
+		};
+
+		image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+	});
+
+/** Render the diagram locally, and write it to the vault. Existing images are overwritten if they changed.
+ * @returns The path of the image
+ */
+const save_image = async (
+	app: App,
+	code: string,
+	options: {
+		source_path: string;
+		format: ImageFormat;
+		codeblock: { title?: string; source: string };
+	},
+): Promise<Result<string, string>> => {
+	const path = MermaidExport.get_image_path(
+		options.source_path,
+		options.format,
+		options.codeblock,
+	);
+
+	const rendered = await render_svg(
+		"BC-mermaid-export-" + path.replace(/[^a-zA-Z0-9]/g, "-"),
+		options.format === "png" ? PLAIN_LABELS_INIT + "\n" + code : code,
+	);
+	if (!rendered.ok) return rendered;
+
+	try {
+		await MermaidExport.write_image(
+			app,
+			path,
+			options.format === "svg"
+				? rendered.data
+				: await svg_to_png(rendered.data),
+		);
+
+		return succ(path);
+	} catch (error) {
+		log.error("save_image > error >", error);
+
+		return fail(error instanceof Error ? error.message : String(error));
+	}
+};
+
+export const MermaidImage = {
+	render_svg,
+	save_image,
+};
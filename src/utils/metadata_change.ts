@@ -0,0 +1,42 @@
+import type { MetadataCache } from "obsidian";
+
+/** How long to wait for the metadata cache (or Dataview) to pick up a write, before giving up */
+const DEFAULT_TIMEOUT_MS = 2000;
+
+/** Wait for a note's metadata to be updated after writing to it, or for `timeout_ms` (2s by default), whichever comes first.
+ * If Dataview is enabled, wait for it to reindex the note instead, like the plugin's own note_save trigger.
+ *   Otherwise the dataview_note and list_note builders would read stale metadata
+ * @returns Whether the change was seen before the timeout
+ */
+export const wait_for_metadata_change = (
+	metadata_cache: Pick<MetadataCache, "on" | "offref">,
+	path: string,
+	options: { dataview: boolean; timeout_ms?: number },
+) =>
+	new Promise<boolean>((resolve) => {
+		const done = (changed: boolean) => {
+			metadata_cache.offref(ref);
+			window.clearTimeout(timeout);
+			resolve(changed);
+		};
+
+		const ref = options.dataview
+			? metadata_cache.on(
+					//@ts-ignore: It's there if dataview is enabled
+					"dataview:metadata-change",
+					(type: string, file: { path: string } | undefined) => {
+						if (type === "update" && file?.path === path) {
+							done(true);
+						}
+					},
+				)
+			: metadata_cache.on("changed", (file) => {
+					if (file.path === path) done(true);
+				});
+
+		// The write may not have changed the file (e.g. the link was already there)
+		const timeout = window.setTimeout(
+			() => done(false),
+			options.timeout_ms ?? DEFAULT_TIMEOUT_MS,
+		);
+	});
@@ -0,0 +1,106 @@
+import type { BCEdge, BCGraph } from "src/graph/MyMultiGraph";
+import {
+	has_edge_attrs,
+	type EdgeAttrFilters,
+	type EdgeSorter,
+} from "src/graph/utils";
+import type { EdgeFieldGroup } from "src/interfaces/settings";
+
+export type NeighbourTableColumn = { label: string; fields: string[] };
+export type NeighbourTableRow = { path: string; cells: BCEdge[][] };
+
+/** A column per field group if fields are merged (i.e. `groups` is given), otherwise a column per field */
+const get_columns = (
+	field_labels: string[],
+	groups: EdgeFieldGroup[] | undefined,
+): NeighbourTableColumn[] => {
+	if (groups) {
+		const grouped_fields = new Set(groups.flatMap((g) => g.fields));
+
+		return [
+			...groups.map((group) => ({
+				label: group.label,
+				fields: group.fields,
+			})),
+			// Fields given on top of the groups still get their own column
+			...field_labels
+				.filter((field) => !grouped_fields.has(field))
+				.map((field) => ({ label: field, fields: [field] })),
+		];
+	} else {
+		return field_labels.map((field) => ({
+			label: field,
+			fields: [field],
+		}));
+	}
+};
+
+/** A row for each note in the graph, with a cell of its out-edges for each column */
+const get_rows = (
+	graph: BCGraph,
+	paths: string[],
+	columns: NeighbourTableColumn[],
+	options: { edge_filter?: EdgeAttrFilters; sort: EdgeSorter },
+): NeighbourTableRow[] =>
+	paths
+		.filter((path) => path && graph.hasNode(path))
+		.map((path) => {
+			const out_edges = graph
+				.get_out_edges(path)
+				.filter((e) => has_edge_attrs(e, options.edge_filter));
+
+			return {
+				path,
+				cells: columns.map((column) =>
+					out_edges
+						.filter((e) =>
+							has_edge_attrs(e, { $or_fields: column.fields }),
+						)
+						.sort(options.sort),
+				),
+			};
+		});
+
+/** Like the Matrix view, only keep columns with some neighbours */
+const drop_empty_columns = (
+	columns: NeighbourTableColumn[],
+	rows: NeighbourTableRow[],
+) => {
+	const non_empty = columns
+		.map((_column, i) => i)
+		.filter((i) => rows.some((row) => row.cells[i].length));
+
+	return {
+		columns: non_empty.map((i) => columns[i]),
+		rows: rows.map((row) => ({
+			path: row.path,
+			cells: non_empty.map((i) => row.cells[i]),
+		})),
+	};
+};
+
+/** The columns and rows of a table codeblock */
+const build = (
+	graph: BCGraph,
+	paths: string[],
+	options: {
+		field_labels: string[];
+		groups: EdgeFieldGroup[] | undefined;
+		edge_filter?: EdgeAttrFilters;
+		sort: EdgeSorter;
+	},
+) => {
+	const columns = get_columns(options.field_labels, options.groups);
+
+	return drop_empty_columns(
+		columns,
+		get_rows(graph, paths, columns, options),
+	);
+};
+
+export const NeighbourTable = {
+	get_columns,
+	get_rows,
+	drop_empty_columns,
+	build,
+};
@@ -29,6 +29,25 @@ const build = (
 	ext: string,
 ) => ensure_ext(normalise(folder + "/" + basename), ext);
 
+/** Characters that file names can't have, or that break links to them */
+const INVALID_FILE_NAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+/** A file next to source_path, named "<note> - <title>.<ext>". Used to export codeblocks */
+const sibling_export_path = (
+	source_path: string,
+	title: string,
+	/** _Just_ extname, no period */
+	ext: string,
+) => {
+	const name = [basename(source_path), title]
+		.join(" - ")
+		.replace(INVALID_FILE_NAME_CHARS, "");
+
+	const folder = dirname(source_path);
+
+	return normalise((folder ? folder + "/" : "") + name + "." + ext);
+};
+
 /** Pass in which components you want to *keep*, the rest will be dropped */
 const show = (
 	path: string,
@@ -60,4 +79,6 @@ export const Paths = {
 	build,
 	normalise,
 	show,
+
+	sibling_export_path,
 };
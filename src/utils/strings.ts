@@ -45,3 +45,15 @@ export const resolve_templates = (
 
 export const wrap_in_codeblock = (str: string, lang = ""): string =>
 	"```" + lang + "\n" + str + "\n```";
+
+/** FNV-1a. Not cryptographic, just cheap and stable */
+export const hash_string = (str: string) => {
+	let hash = 0x811c9dc5;
+
+	for (let i = 0; i < str.length; i++) {
+		hash ^= str.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+
+	return (hash >>> 0).toString(16);
+};
@@ -0,0 +1,169 @@
+import type { BreadcrumbsError } from "src/interfaces/graph";
+
+/** An edge implied by a table row. Paths are still unresolved */
+export type TableNoteEdge = {
+	source_path: string;
+	target_path: string;
+	field: string;
+};
+
+/** Parse CSV text into rows of cells.
+ * Handles quoted cells (with escaped "" quotes and newlines), and both LF and CRLF line endings.
+ * Empty lines are skipped.
+ */
+const parse_csv = (text: string) => {
+	const rows: string[][] = [];
+
+	let row: string[] = [];
+	let cell = "";
+	let quoted = false;
+
+	const end_row = () => {
+		row.push(cell);
+		if (row.some((c) => c.trim())) rows.push(row);
+
+		row = [];
+		cell = "";
+	};
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(cell);
+			cell = "";
+		} else if (char === "\n") {
+			end_row();
+		} else if (char !== "\r") {
+			cell += char;
+		}
+	}
+
+	end_row();
+
+	return rows;
+};
+
+const TABLE_DELIMITER_ROW_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/** Split a markdown table row on its (unescaped) pipes */
+const split_table_row = (line: string) =>
+	line
+		.trim()
+		.replace(/^\|/, "")
+		.replace(/(?<!\\)\|$/, "")
+		.split(/(?<!\\)\|/)
+		.map((cell) => cell.trim());
+
+/** Find all the markdown tables in a note's content, and parse each into rows of cells (including the header row) */
+const parse_markdown_tables = (content: string) => {
+	const tables: string[][][] = [];
+	const lines = content.split(/\r?\n/);
+
+	for (let i = 0; i < lines.length - 1; i++) {
+		if (
+			!lines[i].includes("|") ||
+			!TABLE_DELIMITER_ROW_REGEX.test(lines[i + 1])
+		) {
+			continue;
+		}
+
+		const table = [split_table_row(lines[i])];
+
+		// Skip the delimiter row, then take rows until the table ends
+		let j = i + 2;
+		for (; j < lines.length && lines[j].includes("|"); j++) {
+			table.push(split_table_row(lines[j]));
+		}
+
+		tables.push(table);
+		i = j - 1;
+	}
+
+	return tables;
+};
+
+// NOTE: Aliases in markdown tables have to escape their pipe, e.g. [[note\|alias]]
+const WIKI_LINK_REGEX = /\[\[([^\]|#\\]*)[^\]]*\]\]/g;
+
+/** Get the link paths in a cell. If there are no [[links]], the whole cell is taken as a single path */
+const parse_cell_links = (cell: string) => {
+	const links = [...cell.matchAll(WIKI_LINK_REGEX)]
+		.map((match) => match[1].trim())
+		.filter(Boolean);
+
+	if (links.length) return links;
+
+	const plain = cell.trim();
+	return plain ? [plain] : [];
+};
+
+/** Work out which edges a table implies.
+ * The first row is the header: the first column holds the source notes, and the rest are headed by edge fields.
+ * Each cell then adds edges from the row's source note, to the notes in that cell, using the column's field.
+ */
+const get_edges = (
+	rows: string[][],
+	path: string,
+	field_labels: Set<string>,
+) => {
+	const edges: TableNoteEdge[] = [];
+	const errors: BreadcrumbsError[] = [];
+	/** The source note of each row, in order */
+	const sources: string[] = [];
+
+	const [header, ...body] = rows;
+	if (!header) return { sources, edges, errors };
+
+	const fields = header.map((label, column_i) => {
+		// The first column holds the source notes, and empty headers are just ignored
+		if (column_i === 0 || !label.trim()) return;
+
+		if (!field_labels.has(label.trim())) {
+			errors.push({
+				path,
+				code: "invalid_field_value",
+				message: `Table column is not a valid BC field: '${label}'`,
+			});
+
+			return;
+		}
+
+		return label.trim();
+	});
+
+	body.forEach((row) => {
+		const source_path = parse_cell_links(row[0] ?? "").at(0);
+		if (!source_path) return;
+		sources.push(source_path);
+
+		row.forEach((cell, column_i) => {
+			const field = fields[column_i];
+			if (!field) return;
+
+			parse_cell_links(cell).forEach((target_path) => {
+				edges.push({ source_path, target_path, field });
+			});
+		});
+	});
+
+	return { sources, edges, errors };
+};
+
+export const TableNote = {
+	parse_csv,
+	parse_markdown_tables,
+	parse_cell_links,
+	get_edges,
+};
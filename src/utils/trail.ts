@@ -0,0 +1,49 @@
+import type { BCGraph } from "src/graph/MyMultiGraph";
+import { Traverse } from "src/graph/traverse";
+import { has_edge_attrs, type EdgeAttrFilters } from "src/graph/utils";
+import type { BreadcrumbsSettings } from "src/interfaces/settings";
+
+type TrailSettings = BreadcrumbsSettings["views"]["page"]["trail"];
+
+/** All the paths up from a note, in the edge_fields given.
+ * Then pick all of them, or just the shortest/longest path.
+ */
+const get_paths = (
+	graph: BCGraph,
+	file_path: string,
+	options: Pick<TrailSettings, "merge_fields" | "selection"> & {
+		edge_field_labels: string[];
+	},
+) => {
+	if (!graph.hasNode(file_path)) return [];
+
+	// TODO: I've copped-out here, building the view from edge_tree seems crazy hard.
+	// So I just use all_paths
+	const base_traversal = (attr: EdgeAttrFilters) =>
+		Traverse.tree_to_all_paths(
+			Traverse.build_tree(graph, file_path, {}, (e) =>
+				has_edge_attrs(e, attr),
+			),
+		);
+
+	const all_paths = options.merge_fields
+		? base_traversal({ $or_fields: options.edge_field_labels })
+		: options.edge_field_labels.flatMap((field) =>
+				base_traversal({ field }),
+			);
+
+	switch (options.selection) {
+		case "all":
+			return all_paths;
+		case "shortest":
+			return all_paths.slice(-1);
+		case "longest":
+			return all_paths.slice(0, 1);
+		default:
+			return [[]];
+	}
+};
+
+export const Trail = {
+	get_paths,
+};
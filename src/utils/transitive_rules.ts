@@ -1,7 +1,12 @@
+import { EXPLICIT_EDGE_SOURCES } from "src/const/graph";
 import type { BCEdge } from "src/graph/MyMultiGraph";
+import {
+	parse_edge_attr_filters,
+	stringify_edge_attr_filters,
+	type EdgeAttrFilters,
+} from "src/graph/utils";
 import type { Result } from "src/interfaces/result";
 import type { BreadcrumbsSettings, EdgeField } from "src/interfaces/settings";
-import { url_search_params } from "src/utils/url";
 import { z } from "zod";
 import { fail, succ } from "./result";
 import { split_and_trim } from "./strings";
@@ -14,7 +19,7 @@ export const stringify_transitive_relation = (
 	rule: Pick<TransitiveRule, "chain" | "close_field" | "close_reversed">,
 ) =>
 	`[${rule.chain
-		.map((attr) => url_search_params(attr, { trim_lone_param: true }))
+		.map(stringify_edge_attr_filters)
 		.join(", ")}] ${rule.close_reversed ? "<-" : "->"} ${rule.close_field}`;
 
 const regex = /\[(.+)\]\s*(<-|->)\s*(.+)/;
@@ -33,16 +38,22 @@ export const parse_transitive_relation = (
 	null
 > => {
 	const match = str.match(regex);
+	if (!match) return fail(null);
 
-	if (!match) {
-		return fail(null);
-	} else {
-		return succ({
-			close_field: match[3],
-			close_reversed: match[2] === "<-",
-			chain: split_and_trim(match[1]).map((field) => ({ field })),
-		});
+	// Each chain item is either a lone field, or an edge filter like `field=parent source=list_note`
+	const chain: EdgeAttrFilters[] = [];
+	for (const item of split_and_trim(match[1])) {
+		const filters = parse_edge_attr_filters(item);
+		if (!filters.ok) return fail(null);
+
+		chain.push(filters.data);
 	}
+
+	return succ({
+		chain,
+		close_field: match[3],
+		close_reversed: match[2] === "<-",
+	});
 };
 
 export const input_transitive_rule_schema = (data: { fields: EdgeField[] }) => {
@@ -50,7 +61,27 @@ export const input_transitive_rule_schema = (data: { fields: EdgeField[] }) => {
 
 	return z.object({
 		chain: z.array(
-			z.object({ field: zod.schema.dynamic_enum(field_labels) }),
+			z
+				.object({
+					field: zod.schema.dynamic_enum(field_labels),
+					explicit: z.boolean(),
+					source: z.enum(EXPLICIT_EDGE_SOURCES),
+					implied_kind: z.string(),
+					round: z
+						.object({
+							min: z.number().int(),
+							max: z.number().int(),
+						})
+						.partial(),
+
+					$or_fields: z.array(zod.schema.dynamic_enum(field_labels)),
+					$or_sources: z.array(z.enum(EXPLICIT_EDGE_SOURCES)),
+
+					$not_fields: z.array(zod.schema.dynamic_enum(field_labels)),
+					$not_sources: z.array(z.enum(EXPLICIT_EDGE_SOURCES)),
+					$not_implied_kinds: z.array(z.string()),
+				})
+				.partial(),
 		),
 
 		close_field: zod.schema.dynamic_enum(field_labels, "close_field"),
@@ -76,8 +107,10 @@ export const transitive_rule_to_edges = (
 			target_attr: { resolved: true },
 			attr: {
 				explicit: true,
-				field: attr.field ?? "<field>",
-				source: "typed_link",
+				field:
+					attr.field ??
+					(stringify_edge_attr_filters(attr) || "<field>"),
+				source: attr.source ?? "typed_link",
 			},
 		});
 	});
@@ -0,0 +1,57 @@
+/** A link in the body of a note, already resolved to a path */
+export type TraverseNoteLink = {
+	path: string;
+	/** Whether the path points to an existing file */
+	resolved: boolean;
+};
+
+/** An edge in a traverse-note's chain */
+export type TraverseNoteEdge = {
+	source_path: string;
+	target_path: string;
+	target_resolved: boolean;
+	field: string;
+};
+
+/** Turn the body links of a traverse-note into a chain of edges.
+ * The note points to its first link, and each link points to the next one.
+ * With a depth > 1, the links of each linked note are followed first, before moving on to the next link.
+ */
+const get_edges = (
+	traverse_note: { path: string; field: string; depth: number },
+	/** The body links of a note, in the order they appear */
+	get_links: (path: string) => TraverseNoteLink[],
+) => {
+	const chain: TraverseNoteLink[] = [
+		{ path: traverse_note.path, resolved: true },
+	];
+	// Each note only appears in the chain once, which also stops us going round in circles
+	const visited = new Set([traverse_note.path]);
+
+	const follow = (path: string, depth: number) => {
+		get_links(path).forEach((link) => {
+			if (visited.has(link.path)) return;
+			visited.add(link.path);
+
+			chain.push(link);
+
+			// Unresolved notes have no links to follow
+			if (link.resolved && depth > 1) {
+				follow(link.path, depth - 1);
+			}
+		});
+	};
+
+	follow(traverse_note.path, traverse_note.depth);
+
+	return chain.slice(1).map((target, i): TraverseNoteEdge => ({
+		source_path: chain[i].path,
+		target_path: target.path,
+		target_resolved: target.resolved,
+		field: traverse_note.field,
+	}));
+};
+
+export const TraverseNote = {
+	get_edges,
+};
@@ -0,0 +1,38 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import LocalGraphViewComponent from "src/components/side_views/LocalGraphView.svelte";
+import { VIEW_IDS } from "src/const/views";
+import BreadcrumbsPlugin from "src/main";
+
+export class GraphView extends ItemView {
+	plugin: BreadcrumbsPlugin;
+	component!: LocalGraphViewComponent;
+
+	constructor(leaf: WorkspaceLeaf, plugin: BreadcrumbsPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return VIEW_IDS.graph;
+	}
+
+	getDisplayText() {
+		return "Graph view";
+	}
+
+	icon = "git-fork";
+
+	async onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+
+		this.component = new LocalGraphViewComponent({
+			target: this.contentEl,
+			props: { plugin: this.plugin },
+		});
+	}
+
+	async onClose() {
+		this.component?.$destroy();
+	}
+}
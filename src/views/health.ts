@@ -0,0 +1,38 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import GraphHealthComponent from "src/components/side_views/GraphHealth.svelte";
+import { VIEW_IDS } from "src/const/views";
+import BreadcrumbsPlugin from "src/main";
+
+export class HealthView extends ItemView {
+	plugin: BreadcrumbsPlugin;
+	component!: GraphHealthComponent;
+
+	constructor(leaf: WorkspaceLeaf, plugin: BreadcrumbsPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return VIEW_IDS.health;
+	}
+
+	getDisplayText() {
+		return "Graph health";
+	}
+
+	icon = "heart-pulse";
+
+	async onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+
+		this.component = new GraphHealthComponent({
+			target: this.contentEl,
+			props: { plugin: this.plugin },
+		});
+	}
+
+	async onClose() {
+		this.component?.$destroy();
+	}
+}
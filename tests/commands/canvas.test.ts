@@ -0,0 +1,206 @@
+import type { CanvasData, CanvasFileData } from "obsidian/canvas";
+import { CanvasExport } from "src/commands/canvas";
+import { BCGraph } from "src/graph/MyMultiGraph";
+import { Traverse } from "src/graph/traverse";
+import { get_edge_sorter } from "src/graph/utils";
+import { _mock_edge } from "tests/__mocks__/graph";
+import { describe, expect, test } from "vitest";
+
+const graph = new BCGraph({
+	edges: [
+		_mock_edge("a.md", "b.md", { field: "down" }),
+		_mock_edge("a.md", "c.md", { field: "down" }),
+		_mock_edge("b.md", "d.md", { field: "down" }),
+		_mock_edge("c.md", "d.md", {
+			field: "next",
+			explicit: false,
+			implied_kind: "transitive:cousin_is_sibling",
+			round: 1,
+		}),
+	],
+});
+
+const tree = Traverse.build_tree(graph, "a.md", {});
+
+const get_node = (data: CanvasData, file: string) =>
+	data.nodes.find(
+		(node): node is CanvasFileData =>
+			node.type === "file" && node.file === file,
+	);
+
+describe("build_tree", () => {
+	const sort = get_edge_sorter({ field: "basename", order: -1 }, graph);
+
+	test("default options follow every field", () => {
+		const built = CanvasExport.build_tree(graph, "a.md", {
+			depth: 3,
+			fields: undefined,
+			sort,
+		});
+
+		expect(
+			Traverse.flatten_tree(built).map((item) => item.edge.target_id),
+		).toStrictEqual(["c.md", "d.md", "b.md", "d.md"]);
+	});
+
+	test("fields, depth", () => {
+		const built = CanvasExport.build_tree(graph, "a.md", {
+			depth: 1,
+			fields: ["down"],
+			sort,
+		});
+
+		expect(
+			Traverse.flatten_tree(built).map((item) => item.edge.target_id),
+		).toStrictEqual(["c.md", "b.md"]);
+	});
+});
+
+describe("from_tree", () => {
+	test("nodes and edges", () => {
+		const canvas = CanvasExport.from_tree("a.md", tree, { layout: "tree" });
+
+		expect(
+			canvas.nodes.map((node) => (node as CanvasFileData).file).sort(),
+		).toStrictEqual(["a.md", "b.md", "c.md", "d.md"]);
+
+		expect(
+			canvas.edges.map((edge) => [edge.label, edge.color]),
+		).toStrictEqual([
+			["down", undefined],
+			["down", undefined],
+			["down", undefined],
+			["next", "#888888"],
+		]);
+
+		const a = get_node(canvas, "a.md")!;
+		expect(canvas.edges[0]).toMatchObject({
+			fromNode: a.id,
+			fromSide: "bottom",
+			toNode: get_node(canvas, "b.md")!.id,
+			toSide: "top",
+		});
+	});
+
+	test("layout: tree", () => {
+		const canvas = CanvasExport.from_tree("a.md", tree, { layout: "tree" });
+
+		const [a, b, c, d] = ["a.md", "b.md", "c.md", "d.md"].map((file) =>
+			get_node(canvas, file)!,
+		);
+
+		// Parents are centred over their children
+		expect(a.x).toBe((b.x + c.x) / 2);
+		expect(b.x).toBe(d.x);
+		expect(b.y).toBe(c.y);
+		expect(d.y).toBeGreaterThan(b.y);
+		expect(b.y).toBeGreaterThan(a.y);
+	});
+
+	test("layout: dag", () => {
+		const canvas = CanvasExport.from_tree("a.md", tree, { layout: "dag" });
+
+		const [a, b, d] = ["a.md", "b.md", "d.md"].map((file) =>
+			get_node(canvas, file)!,
+		);
+
+		expect(d.y).toBeGreaterThan(b.y);
+		expect(b.y).toBeGreaterThan(a.y);
+	});
+
+	test("ids are stable", () => {
+		expect(
+			CanvasExport.from_tree("a.md", tree, { layout: "tree" }),
+		).toStrictEqual(
+			CanvasExport.from_tree("a.md", tree, { layout: "tree" }),
+		);
+	});
+});
+
+describe("parse", () => {
+	test("empty file", () => {
+		expect(CanvasExport.parse("")).toStrictEqual({
+			ok: true,
+			data: { nodes: [], edges: [] },
+		});
+	});
+
+	test("invalid json", () => {
+		expect(CanvasExport.parse("{").ok).toBe(false);
+	});
+});
+
+describe("merge", () => {
+	const generated = CanvasExport.from_tree("a.md", tree, { layout: "tree" });
+
+	test("keeps manual positions, nodes and edges", () => {
+		const existing: CanvasData = {
+			nodes: [
+				{
+					id: "manual-a",
+					type: "file",
+					file: "a.md",
+					x: 1000,
+					y: 1000,
+					width: 100,
+					height: 100,
+					color: "1",
+				},
+				{
+					id: "manual-text",
+					type: "text",
+					text: "Note to self",
+					x: 0,
+					y: 0,
+					width: 100,
+					height: 100,
+				},
+			],
+			edges: [
+				{
+					id: "manual-edge",
+					fromNode: "manual-text",
+					toNode: "manual-a",
+				},
+			],
+		};
+
+		const merged = CanvasExport.merge(existing, generated);
+
+		expect(merged.nodes.slice(0, 2)).toStrictEqual(existing.nodes);
+		expect(merged.nodes).toHaveLength(5);
+		expect(get_node(merged, "a.md")!.id).toBe("manual-a");
+
+		expect(merged.edges[0]).toStrictEqual(existing.edges[0]);
+		expect(merged.edges).toHaveLength(5);
+		expect(merged.edges[1].fromNode).toBe("manual-a");
+	});
+
+	test("removes stale generated nodes and edges", () => {
+		const smaller = CanvasExport.from_tree(
+			"a.md",
+			Traverse.build_tree(graph, "a.md", { max_depth: 0 }),
+			{ layout: "tree" },
+		);
+
+		const merged = CanvasExport.merge(
+			{
+				...generated,
+				edges: [
+					...generated.edges,
+					{
+						id: "manual-edge",
+						fromNode: get_node(generated, "d.md")!.id,
+						toNode: get_node(generated, "a.md")!.id,
+					},
+				],
+			},
+			smaller,
+		);
+
+		expect(
+			merged.nodes.map((node) => (node as CanvasFileData).file),
+		).toStrictEqual(["a.md", "b.md", "c.md"]);
+		expect(merged.edges).toStrictEqual(smaller.edges);
+	});
+});
@@ -0,0 +1,95 @@
+import { GraphExport } from "src/commands/export";
+import { BCGraph } from "src/graph/MyMultiGraph";
+import { _mock_edge } from "tests/__mocks__/graph";
+import { describe, expect, test } from "vitest";
+
+const make_graph = () => {
+	const graph = new BCGraph({
+		edges: [
+			_mock_edge("a.md", "b.md", { field: "up" }),
+			_mock_edge("b.md", "c.md", { field: "up" }),
+			_mock_edge("b.md", "a.md", {
+				field: "down",
+				explicit: false,
+				implied_kind: "inverse:up",
+				round: 1,
+			}),
+		],
+	});
+
+	graph.setNodeAttribute("a.md", "aliases", ['A "quoted" & <odd>']);
+
+	return graph;
+};
+
+describe("filter_graph", () => {
+	test("all nodes, filtered edges", () => {
+		const data = GraphExport.filter_graph(make_graph(), {
+			explicit: true,
+		});
+
+		expect(data.nodes.map((n) => n.id)).toStrictEqual([
+			"a.md",
+			"b.md",
+			"c.md",
+		]);
+		expect(data.edges.map((e) => e.target_id)).toStrictEqual([
+			"b.md",
+			"c.md",
+		]);
+	});
+
+	test("start_node and max_depth", () => {
+		const data = GraphExport.filter_graph(make_graph(), {
+			fields: ["up"],
+			start_node: "a.md",
+			max_depth: 1,
+		});
+
+		expect(data.nodes.map((n) => n.id)).toStrictEqual(["a.md", "b.md"]);
+		expect(data.edges.map((e) => e.target_id)).toStrictEqual(["b.md"]);
+	});
+});
+
+describe("serialize", () => {
+	test("json can be imported back", () => {
+		const json = GraphExport.serialize(make_graph(), "json", {});
+
+		const graph = new BCGraph();
+		graph.import(JSON.parse(json));
+
+		expect(graph.order).toBe(3);
+		expect(graph.size).toBe(3);
+		expect(graph.getNodeAttribute("a.md", "aliases")).toStrictEqual([
+			'A "quoted" & <odd>',
+		]);
+	});
+
+	test("graphml and gexf escape values", () => {
+		for (const format of ["graphml", "gexf"] as const) {
+			const xml = GraphExport.serialize(make_graph(), format, {});
+
+			expect(xml).toContain("A &quot;quoted&quot; &amp; &lt;odd&gt;");
+			expect(xml).toContain("inverse:up");
+			expect(xml).not.toContain("<odd>");
+		}
+	});
+
+	test("dot", () => {
+		const dot = GraphExport.serialize(make_graph(), "dot", {
+			explicit: false,
+		});
+
+		expect(dot).toBe(
+			[
+				"digraph breadcrumbs {",
+				'  "a.md" [label="a", resolved=true, aliases="A \\"quoted\\" & <odd>"];',
+				'  "b.md" [label="b", resolved=true];',
+				'  "c.md" [label="c", resolved=true];',
+				'  "b.md" -> "a.md" [label="down", field="down", explicit=false, implied_kind="inverse:up", round=1];',
+				"}",
+				"",
+			].join("\n"),
+		);
+	});
+});
@@ -0,0 +1,126 @@
+import { GraphImport } from "src/commands/import";
+import { BCGraph } from "src/graph/MyMultiGraph";
+import { _mock_edge } from "tests/__mocks__/graph";
+import { describe, expect, test } from "vitest";
+
+const make_graph = () => {
+	const graph = new BCGraph({
+		edges: [_mock_edge("folder/a.md", "b.md", { field: "up" })],
+	});
+
+	graph.safe_add_node("c.md", { resolved: true, aliases: ["Sea"] });
+	graph.safe_add_node("other/c.md", { resolved: true });
+	graph.safe_add_node("unresolved.md", { resolved: false });
+
+	return graph;
+};
+
+const field_labels = ["up", "down"];
+
+describe("parse", () => {
+	test("graphology json", () => {
+		const parsed = GraphImport.parse(
+			JSON.stringify({
+				nodes: [{ key: "a" }, { key: "b" }],
+				edges: [
+					{ source: "a", target: "b", attributes: { field: "up" } },
+					{ source: "b", target: "a" },
+				],
+			}),
+			"json",
+		);
+
+		expect(parsed).toStrictEqual({
+			ok: true,
+			data: [
+				{ source: "a", target: "b", field: "up" },
+				{ source: "b", target: "a", field: undefined },
+			],
+		});
+	});
+
+	test("invalid json", () => {
+		expect(GraphImport.parse("{", "json").ok).toBe(false);
+		expect(GraphImport.parse('{"nodes": []}', "json").ok).toBe(false);
+		expect(
+			GraphImport.parse('{"edges": [{"source": "a"}]}', "json").ok,
+		).toBe(false);
+	});
+
+	test("csv edge list", () => {
+		const parsed = GraphImport.parse(
+			'Target,Source,Field\nb,a,up\n"c, d",a,\n,a,up\n',
+			"csv",
+		);
+
+		expect(parsed).toStrictEqual({
+			ok: true,
+			data: [
+				{ source: "a", target: "b", field: "up" },
+				{ source: "a", target: "c, d", field: undefined },
+			],
+		});
+	});
+
+	test("csv without source and target columns", () => {
+		expect(GraphImport.parse("from,to\na,b", "csv").ok).toBe(false);
+	});
+});
+
+describe("build_node_resolver", () => {
+	test("path", () => {
+		const resolve = GraphImport.build_node_resolver(make_graph(), "path");
+
+		expect(resolve("folder/a")).toStrictEqual({
+			ok: true,
+			data: "folder/a.md",
+		});
+		expect(resolve("unresolved.md").ok).toBe(false);
+	});
+
+	test("basename, ambiguous", () => {
+		const resolve = GraphImport.build_node_resolver(
+			make_graph(),
+			"basename",
+		);
+
+		expect(resolve("A")).toStrictEqual({ ok: true, data: "folder/a.md" });
+		expect(resolve("c").ok).toBe(false);
+	});
+
+	test("alias", () => {
+		const resolve = GraphImport.build_node_resolver(make_graph(), "alias");
+
+		expect(resolve("sea")).toStrictEqual({ ok: true, data: "c.md" });
+		expect(resolve("a").ok).toBe(false);
+	});
+});
+
+describe("plan", () => {
+	test("maps edges, skipping invalid and existing ones", () => {
+		const { edges, skipped } = GraphImport.plan(
+			make_graph(),
+			[
+				{ source: "a", target: "b", field: "up" },
+				{ source: "a", target: "b" },
+				{ source: "b", target: "a" },
+				{ source: "b", target: "a" },
+				{ source: "b", target: "a", field: "sideways" },
+				{ source: "b", target: "missing" },
+			],
+			{ map_by: "basename", field_labels, default_field: "down" },
+		);
+
+		expect(edges).toStrictEqual([
+			{ source_id: "folder/a.md", target_id: "b.md", field: "down" },
+			{ source_id: "b.md", target_id: "folder/a.md", field: "down" },
+		]);
+
+		expect(skipped.map((s) => s.reason)).toStrictEqual([
+			"Edge already exists",
+			"Edge already exists",
+			"Unknown field `sideways`",
+			"No note matches `missing`",
+		]);
+	});
+});
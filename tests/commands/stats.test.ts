@@ -55,6 +55,13 @@ describe("get_graph_stats", () => {
 				round: {
 					"1": 1,
 				},
+				ignored: {},
+			},
+			cycles: {
+				group: {
+					ups: 0,
+					rights: 0,
+				},
 			},
 		});
 	});
@@ -103,4 +103,97 @@ describe("safe_add_directed_edge", () => {
 			g.safe_add_directed_edge("a", "b", _mock_edge("a", "b").attr),
 		).toBe(false);
 	});
+
+	test("ignore_in_edges", (t) => {
+		const g = new BCGraph();
+
+		g.addNode("a", { resolved: true });
+		g.addNode("b", { resolved: true, ignore_in_edges: {} });
+
+		t.expect(
+			g.safe_add_directed_edge("a", "b", _mock_edge("a", "b").attr),
+		).toBe(false);
+
+		t.expect(g.hasDirectedEdge("a", "b")).toBe(false);
+		t.expect([...g.ignored_edges.values()]).toStrictEqual([
+			{ source_id: "a", target_id: "b", reason: "ignore_in_edges" },
+		]);
+	});
+
+	test("ignore_out_edges filter", (t) => {
+		const g = new BCGraph();
+
+		g.addNode("a", {
+			resolved: true,
+			ignore_out_edges: { sources: ["tag_note", "regex_note"] },
+		});
+		g.addNode("b", { resolved: true });
+		g.addNode("c", { resolved: true });
+
+		t.expect(
+			g.safe_add_directed_edge(
+				"a",
+				"b",
+				_mock_edge("a", "b", { source: "tag_note" }).attr,
+			),
+		).toBe(false);
+
+		t.expect(
+			g.safe_add_directed_edge(
+				"a",
+				"c",
+				_mock_edge("a", "c", { source: "typed_link" }).attr,
+			),
+		).toBe(true);
+
+		t.expect(g.ignored_edges.get("a|down|b")?.reason).toBe(
+			"ignore_out_edges",
+		);
+	});
+});
+
+describe("get_cycles", () => {
+	test("no cycles", (t) => {
+		const g = new BCGraph({
+			edges: [_mock_edge("a", "b"), _mock_edge("b", "c")],
+		});
+
+		t.expect(g.get_cycles()).toStrictEqual([]);
+	});
+
+	test("components", (t) => {
+		const g = new BCGraph({
+			edges: [
+				_mock_edge("a", "b"),
+				_mock_edge("b", "c"),
+				_mock_edge("c", "a"),
+				_mock_edge("c", "d"),
+				_mock_edge("d", "e"),
+				_mock_edge("e", "d"),
+				_mock_edge("f", "f"),
+			],
+		});
+
+		t.expect(
+			g.get_cycles().map((cycle) => cycle.slice().sort()),
+		).toStrictEqual([["d", "e"], ["a", "b", "c"], ["f"]]);
+	});
+
+	test("restricted to fields", (t) => {
+		const g = new BCGraph({
+			edges: [
+				_mock_edge("a", "b", { field: "up" }),
+				_mock_edge("b", "a", { field: "down" }),
+				_mock_edge("b", "c", { field: "up" }),
+				_mock_edge("c", "b", { field: "parent" }),
+			],
+		});
+
+		t.expect(g.get_cycles({ $or_fields: ["up"] })).toStrictEqual([]);
+		t.expect(
+			g
+				.get_cycles({ $or_fields: ["up", "parent"] })
+				.map((cycle) => cycle.slice().sort()),
+		).toStrictEqual([["b", "c"]]);
+	});
 });
@@ -0,0 +1,69 @@
+import { add_implied_edges } from "src/graph/builders/implied";
+import { BCGraph } from "src/graph/MyMultiGraph";
+import type { ImpliedEdgeBuilderPlugin } from "src/interfaces/graph";
+import { _mock_edge } from "tests/__mocks__/graph";
+import { describe, expect, test } from "vitest";
+
+const plugin: ImpliedEdgeBuilderPlugin = {
+	settings: {
+		edge_fields: [{ label: "up" }, { label: "down" }],
+		implied_relations: {
+			transitive: [
+				{
+					name: "",
+					rounds: 2,
+					chain: [{ field: "up" }, { field: "up" }],
+					close_field: "up",
+					close_reversed: false,
+				},
+			],
+			inverse: [{ rounds: 3, field: "up", inverse_field: "down" }],
+			symmetric: [],
+		},
+	},
+};
+
+const make_graph = () => {
+	const graph = new BCGraph({
+		edges: [
+			_mock_edge("a", "b", { field: "up" }),
+			_mock_edge("b", "c", { field: "up" }),
+			_mock_edge("c", "d", { field: "up" }),
+		],
+	});
+
+	// Blocks the inverse of c -up-> d
+	graph.setNodeAttribute("c", "ignore_in_edges", { explicit: false });
+
+	return graph;
+};
+
+describe("add_implied_edges", () => {
+	test("replaying the tried edges gives the same graph", () => {
+		const graph = make_graph();
+		const rounds: number[] = [];
+
+		const { edges } = add_implied_edges(
+			graph,
+			plugin,
+			new Set(["up"]),
+			undefined,
+			{ on_round: (round) => rounds.push(round) },
+		);
+
+		expect(rounds).toStrictEqual([1, 2, 3]);
+
+		const replayed = make_graph();
+		edges.forEach((edge) => {
+			replayed.safe_add_directed_edge(
+				edge.source_id,
+				edge.target_id,
+				edge.attr,
+			);
+		});
+
+		expect(replayed.export()).toStrictEqual(graph.export());
+		expect(replayed.ignored_edges).toStrictEqual(graph.ignored_edges);
+		expect(graph.ignored_edges.size).toBeGreaterThan(0);
+	});
+});
@@ -0,0 +1,94 @@
+import { _add_implied_edges_inverse } from "src/graph/builders/implied/inverse";
+import { BCGraph } from "src/graph/MyMultiGraph";
+import type BreadcrumbsPlugin from "src/main";
+import { _mock_edge } from "tests/__mocks__/graph";
+import { describe, expect, test } from "vitest";
+
+const plugin = {
+	settings: { edge_fields: [{ label: "up" }, { label: "down" }] },
+} as BreadcrumbsPlugin;
+
+const rule = { rounds: 1, field: "up", inverse_field: "down" };
+
+describe("_add_implied_edges_inverse", () => {
+	test("both directions", () => {
+		const graph = new BCGraph({
+			edges: [
+				_mock_edge("a", "b", { field: "up" }),
+				_mock_edge("c", "d", { field: "down" }),
+				_mock_edge("e", "f", { field: "same" }),
+			],
+		});
+
+		const { edges, errors } = _add_implied_edges_inverse(
+			graph,
+			plugin,
+			rule,
+			1,
+		);
+
+		expect(errors).toStrictEqual([]);
+		expect(edges).toStrictEqual([
+			{
+				source_id: "b",
+				target_id: "a",
+				attr: {
+					round: 1,
+					field: "down",
+					explicit: false,
+					implied_kind: "inverse:up <-> down",
+				},
+			},
+			{
+				source_id: "d",
+				target_id: "c",
+				attr: {
+					round: 1,
+					field: "up",
+					explicit: false,
+					implied_kind: "inverse:up <-> down",
+				},
+			},
+		]);
+	});
+
+	test("start_nodes", () => {
+		const graph = new BCGraph({
+			edges: [
+				_mock_edge("a", "b", { field: "up" }),
+				_mock_edge("c", "d", { field: "up" }),
+			],
+		});
+
+		const { edges } = _add_implied_edges_inverse(graph, plugin, rule, 1, [
+			"d",
+		]);
+
+		expect(edges.map((e) => [e.source_id, e.target_id])).toStrictEqual([
+			["d", "c"],
+		]);
+	});
+
+	test("past its rounds", () => {
+		const graph = new BCGraph({
+			edges: [_mock_edge("a", "b", { field: "up" })],
+		});
+
+		expect(
+			_add_implied_edges_inverse(graph, plugin, rule, 2).edges,
+		).toStrictEqual([]);
+	});
+
+	test("invalid field", () => {
+		const { errors } = _add_implied_edges_inverse(
+			new BCGraph(),
+			plugin,
+			{ ...rule, inverse_field: "nope" },
+			1,
+		);
+
+		expect(errors.map((e) => e.path)).toStrictEqual([
+			"implied_relations.inverse[].inverse_field",
+		]);
+	});
+});
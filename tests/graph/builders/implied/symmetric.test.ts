@@ -0,0 +1,41 @@
+import { _add_implied_edges_symmetric } from "src/graph/builders/implied/symmetric";
+import { BCGraph } from "src/graph/MyMultiGraph";
+import type BreadcrumbsPlugin from "src/main";
+import { _mock_edge } from "tests/__mocks__/graph";
+import { describe, expect, test } from "vitest";
+
+const plugin = {
+	settings: { edge_fields: [{ label: "same" }, { label: "up" }] },
+} as BreadcrumbsPlugin;
+
+describe("_add_implied_edges_symmetric", () => {
+	test("reverses edges of the field", () => {
+		const graph = new BCGraph({
+			edges: [
+				_mock_edge("a", "b", { field: "same" }),
+				_mock_edge("c", "d", { field: "up" }),
+			],
+		});
+
+		const { edges, errors } = _add_implied_edges_symmetric(
+			graph,
+			plugin,
+			{ rounds: 1, field: "same" },
+			1,
+		);
+
+		expect(errors).toStrictEqual([]);
+		expect(edges).toStrictEqual([
+			{
+				source_id: "b",
+				target_id: "a",
+				attr: {
+					round: 1,
+					field: "same",
+					explicit: false,
+					implied_kind: "symmetric:same",
+				},
+			},
+		]);
+	});
+});
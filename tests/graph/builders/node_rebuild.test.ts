@@ -0,0 +1,263 @@
+import { add_implied_edges } from "src/graph/builders/implied";
+import {
+	apply_explicit_edge_diff,
+	get_rebuild_sources,
+} from "src/graph/builders/node_rebuild";
+import { BCGraph } from "src/graph/MyMultiGraph";
+import type { ImpliedEdgeBuilderPlugin } from "src/interfaces/graph";
+import { _mock_edge } from "tests/__mocks__/graph";
+import { describe, expect, test } from "vitest";
+
+type MockEdge = ReturnType<typeof _mock_edge>;
+
+const plugin: ImpliedEdgeBuilderPlugin = {
+	settings: {
+		edge_fields: [{ label: "up" }, { label: "down" }],
+		implied_relations: {
+			transitive: [
+				{
+					name: "",
+					rounds: 2,
+					chain: [{ field: "up" }, { field: "up" }],
+					close_field: "up",
+					close_reversed: false,
+				},
+			],
+			inverse: [{ rounds: 1, field: "up", inverse_field: "down" }],
+			symmetric: [],
+		},
+	},
+};
+
+/** Build the graph from scratch, like a full rebuild would */
+const build_graph = (edges: MockEdge[]) => {
+	const graph = new BCGraph({ edges });
+
+	add_implied_edges(graph, plugin, new Set(edges.map((e) => e.attr.field)));
+
+	return graph;
+};
+
+const stringify_edges = (graph: BCGraph) =>
+	graph
+		.get_out_edges()
+		.map(
+			(edge) =>
+				`${edge.source_id} -${edge.attr.field}-> ${edge.target_id}${edge.attr.explicit ? "" : " (implied)"}`,
+		)
+		.sort();
+
+/** Rebuild changed_path incrementally, going from the old explicit edges to the new ones */
+const rebuild_node = (
+	changed_path: string,
+	old_explicit: MockEdge[],
+	new_explicit: MockEdge[],
+	is_rerun_edge: (edge: MockEdge) => boolean,
+) => {
+	const graph = build_graph(old_explicit);
+
+	const result = apply_explicit_edge_diff(graph, plugin, {
+		changed_path,
+		old_edges: graph
+			.get_out_edges()
+			.filter((edge) => edge.attr.explicit && is_rerun_edge(edge)),
+		new_edges: new BCGraph({
+			edges: new_explicit.filter(is_rerun_edge),
+		}).get_out_edges(),
+	});
+
+	return { graph, result };
+};
+
+describe("apply_explicit_edge_diff", () => {
+	test("added and removed typed links", () => {
+		const old_explicit = [
+			_mock_edge("a.md", "b.md", { field: "up" }),
+			_mock_edge("c.md", "d.md", { field: "up" }),
+		];
+		const new_explicit = [
+			_mock_edge("a.md", "e.md", { field: "up" }),
+			_mock_edge("c.md", "d.md", { field: "up" }),
+		];
+
+		const { graph, result } = rebuild_node(
+			"a.md",
+			old_explicit,
+			new_explicit,
+			(edge) => edge.source_id === "a.md",
+		);
+
+		expect(stringify_edges(graph)).toStrictEqual(
+			stringify_edges(build_graph(new_explicit)),
+		);
+		expect(stringify_edges(graph)).toContain("e.md -down-> a.md (implied)");
+		expect(stringify_edges(graph)).not.toContain(
+			"b.md -down-> a.md (implied)",
+		);
+
+		expect(
+			result.added_edges.map((e) => [e.source_id, e.target_id]),
+		).toStrictEqual([["a.md", "e.md"]]);
+		expect(
+			result.removed_edges.map((e) => [e.source_id, e.target_id]),
+		).toStrictEqual([["a.md", "b.md"]]);
+	});
+
+	test("vault-scope edge out of another note", () => {
+		const tag_edge = (source_id: string, target_id: string) =>
+			_mock_edge(source_id, target_id, {
+				field: "down",
+				source: "tag_note",
+			});
+
+		const old_explicit = [
+			tag_edge("tags.md", "a.md"),
+			_mock_edge("b.md", "c.md", { field: "up" }),
+		];
+		// b.md got the tag
+		const new_explicit = [
+			tag_edge("tags.md", "a.md"),
+			tag_edge("tags.md", "b.md"),
+			_mock_edge("b.md", "c.md", { field: "up" }),
+		];
+
+		const { graph, result } = rebuild_node(
+			"b.md",
+			old_explicit,
+			new_explicit,
+			(edge) => edge.attr.explicit && edge.attr.source === "tag_note",
+		);
+
+		expect(stringify_edges(graph)).toStrictEqual(
+			stringify_edges(build_graph(new_explicit)),
+		);
+		expect(
+			result.added_edges.map((e) => [e.source_id, e.target_id]),
+		).toStrictEqual([["tags.md", "b.md"]]);
+		expect(result.removed_edges).toStrictEqual([]);
+	});
+
+	test("implied edges are re-derived within max_chain_reach", () => {
+		const old_explicit = [
+			_mock_edge("a.md", "b.md", { field: "up" }),
+			_mock_edge("b.md", "c.md", { field: "up" }),
+			// Too far away to be affected
+			_mock_edge("x.md", "y.md", { field: "up" }),
+			_mock_edge("y.md", "z.md", { field: "up" }),
+		];
+		const new_explicit = [
+			...old_explicit,
+			_mock_edge("c.md", "d.md", { field: "up" }),
+		];
+
+		const { graph } = rebuild_node(
+			"c.md",
+			old_explicit,
+			new_explicit,
+			(edge) => edge.source_id === "c.md",
+		);
+
+		const edges = stringify_edges(graph);
+
+		expect(edges).toStrictEqual(stringify_edges(build_graph(new_explicit)));
+		// a.md is 2 steps from the changed note, and its chain only reaches d.md in round 2
+		expect(edges).toContain("a.md -up-> d.md (implied)");
+		expect(edges).toContain("x.md -up-> z.md (implied)");
+	});
+
+	test("stale implied edges are dropped", () => {
+		const old_explicit = [
+			_mock_edge("a.md", "b.md", { field: "up" }),
+			_mock_edge("b.md", "c.md", { field: "up" }),
+			_mock_edge("c.md", "d.md", { field: "up" }),
+		];
+		const new_explicit = [
+			_mock_edge("a.md", "b.md", { field: "up" }),
+			_mock_edge("c.md", "d.md", { field: "up" }),
+		];
+
+		const { graph } = rebuild_node(
+			"b.md",
+			old_explicit,
+			new_explicit,
+			(edge) => edge.source_id === "b.md",
+		);
+
+		const edges = stringify_edges(graph);
+
+		expect(edges).toStrictEqual(stringify_edges(build_graph(new_explicit)));
+		expect(edges).not.toContain("a.md -up-> d.md (implied)");
+	});
+});
+
+describe("get_rebuild_sources", () => {
+	const graph = new BCGraph({
+		edges: [
+			_mock_edge("list.md", "a.md", {
+				field: "down",
+				source: "list_note",
+			}),
+		],
+	});
+	graph.safe_add_node("b.md", { resolved: true, tags: ["#x"] });
+
+	const vault_sources = (
+		path: string,
+		input: Partial<Parameters<typeof get_rebuild_sources>[2]>,
+	) =>
+		get_rebuild_sources(graph, path, {
+			is_new: false,
+			old_attr: graph.getNodeAttributes(path),
+			new_attr: graph.getNodeAttributes(path),
+			metadata: undefined,
+			...input,
+		}).filter((source) =>
+			[
+				"tag_note",
+				"list_note",
+				"date_note",
+				"johnny_decimal_note",
+				"csv_note",
+				"traverse_note",
+			].includes(source),
+		);
+
+	test("node sources always rerun", () => {
+		expect(
+			get_rebuild_sources(graph, "b.md", {
+				is_new: false,
+				old_attr: undefined,
+				new_attr: undefined,
+				metadata: undefined,
+			}),
+		).toContain("typed_link");
+	});
+
+	test("uninvolved note", () => {
+		expect(vault_sources("b.md", {})).toStrictEqual([]);
+	});
+
+	test("touching edges", () => {
+		expect(vault_sources("a.md", {})).toStrictEqual(["list_note"]);
+	});
+
+	test("config keys", () => {
+		expect(
+			vault_sources("b.md", {
+				metadata: { "BC-traverse-note-field": "down" },
+			}),
+		).toStrictEqual(["traverse_note"]);
+	});
+
+	test("changed tags", () => {
+		expect(
+			vault_sources("b.md", {
+				new_attr: { resolved: true, tags: ["#x", "#y"] },
+			}),
+		).toStrictEqual(["tag_note"]);
+	});
+
+	test("new note", () => {
+		expect(vault_sources("b.md", { is_new: true })).toHaveLength(6);
+	});
+});
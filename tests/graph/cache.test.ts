@@ -0,0 +1,130 @@
+import { GRAPH_CACHE_VERSION, GraphCache } from "src/graph/cache";
+import { BCGraph } from "src/graph/MyMultiGraph";
+import type { BreadcrumbsSettings } from "src/interfaces/settings";
+import { _mock_edge } from "tests/__mocks__/graph";
+import { describe, expect, test } from "vitest";
+
+const settings = {
+	edge_fields: [{ label: "up" }],
+	edge_field_groups: [],
+	explicit_edge_sources: {},
+	implied_relations: { transitive: [] },
+	views: { page: {} },
+} as unknown as BreadcrumbsSettings;
+
+describe("get_mtimes", () => {
+	test("only files that builders read", () => {
+		expect(
+			GraphCache.get_mtimes(
+				[
+					["a.md", "md"],
+					["b.csv", "csv"],
+					["c.png", "png"],
+					["d.canvas", "canvas"],
+				].map(([path, extension]) => ({
+					path,
+					extension,
+					stat: { mtime: 1 },
+				})),
+			),
+		).toStrictEqual({ "a.md": 1, "b.csv": 1 });
+	});
+});
+
+describe("get_key", () => {
+	test("only graph settings matter", () => {
+		const key = GraphCache.get_key(settings, "4.0.0");
+
+		expect(
+			GraphCache.get_key(
+				{ ...settings, views: { side: {} } } as BreadcrumbsSettings,
+				"4.0.0",
+			),
+		).toBe(key);
+
+		expect(
+			GraphCache.get_key(
+				{ ...settings, edge_fields: [{ label: "down" }] },
+				"4.0.0",
+			),
+		).not.toBe(key);
+
+		expect(GraphCache.get_key(settings, "4.0.1")).not.toBe(key);
+	});
+
+	test("edge field styles don't matter", () => {
+		expect(
+			GraphCache.get_key(
+				{
+					...settings,
+					edge_fields: settings.edge_fields.map((field) => ({
+						...field,
+						mermaid: { arrow: "dotted", colour: "teal" },
+					})),
+				},
+				"4.0.0",
+			),
+		).toBe(GraphCache.get_key(settings, "4.0.0"));
+	});
+});
+
+describe("serialize/deserialize", () => {
+	const graph = new BCGraph({
+		edges: [_mock_edge("a.md", "b.md", { field: "up" })],
+	});
+	graph.ignored_edges.set("x", {
+		source_id: "b.md",
+		target_id: "c.md",
+		reason: "ignore_in_edges",
+	});
+
+	const cache = JSON.parse(
+		JSON.stringify(
+			GraphCache.serialize(graph, {
+				key: "key",
+				mtimes: { "a.md": 1 },
+				rebuild_errors: { explicit: {}, implied: {} },
+			}),
+		),
+	);
+
+	test("round trip", () => {
+		const result = GraphCache.deserialize(cache, "key");
+		if (!result.ok) throw new Error(result.error);
+
+		expect(
+			result.data.graph.get_out_edges("a.md").map((e) => e.attr),
+		).toStrictEqual(graph.get_out_edges("a.md").map((e) => e.attr));
+		expect(result.data.graph.ignored_edges).toStrictEqual(
+			graph.ignored_edges,
+		);
+		expect(result.data.mtimes).toStrictEqual({ "a.md": 1 });
+	});
+
+	test("stale", () => {
+		expect(GraphCache.deserialize(cache, "other key")).toStrictEqual({
+			ok: false,
+			error: "settings changed",
+		});
+
+		expect(
+			GraphCache.deserialize(
+				{ ...cache, version: GRAPH_CACHE_VERSION - 1 },
+				"key",
+			).ok,
+		).toBe(false);
+
+		expect(GraphCache.deserialize(null, "key").ok).toBe(false);
+	});
+});
+
+describe("diff_mtimes", () => {
+	test("changed, new and deleted", () => {
+		expect(
+			GraphCache.diff_mtimes(
+				{ "a.md": 1, "b.md": 1, "c.md": 1 },
+				{ "a.md": 1, "b.md": 2, "d.md": 1 },
+			),
+		).toStrictEqual({ changed: ["b.md", "d.md"], deleted: ["c.md"] });
+	});
+});
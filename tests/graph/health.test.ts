@@ -0,0 +1,188 @@
+import type { AllFiles } from "src/graph/builders/explicit/files";
+import { GraphHealth } from "src/graph/health";
+import { BCGraph } from "src/graph/MyMultiGraph";
+import { _mock_edge } from "tests/__mocks__/graph";
+import { describe, expect, test } from "vitest";
+
+describe("from_rebuild_errors", () => {
+	test("only note errors can be opened", () => {
+		expect(
+			GraphHealth.from_rebuild_errors({
+				typed_link: [
+					{ path: "a.md", code: "invalid_field_value", message: "m" },
+				],
+				transitive: [
+					{
+						path: "implied_relations.transitive",
+						code: "invalid_setting_value",
+						message: "n",
+					},
+				],
+			}),
+		).toStrictEqual([
+			{
+				source: "typed_link",
+				kind: "builder_error",
+				path: "a.md",
+				message: "m",
+				fixes: [{ kind: "open_file" }],
+			},
+			{
+				source: "transitive",
+				kind: "builder_error",
+				path: "implied_relations.transitive",
+				message: "n",
+				fixes: [],
+			},
+		]);
+	});
+});
+
+describe("lint_unresolved_targets", () => {
+	test("once per source and target", () => {
+		const graph = new BCGraph({
+			nodes: [
+				{ id: "a.md", attr: { resolved: true } },
+				{ id: "b.md", attr: { resolved: false } },
+				{ id: "c.md", attr: { resolved: false } },
+			],
+		});
+
+		graph.safe_add_directed_edge("a.md", "b.md", _mock_edge("", "").attr);
+		graph.safe_add_directed_edge(
+			"a.md",
+			"b.md",
+			_mock_edge("", "", { field: "up" }).attr,
+		);
+		// Unresolved sources are skipped
+		graph.safe_add_directed_edge("c.md", "b.md", _mock_edge("", "").attr);
+
+		expect(
+			GraphHealth.lint_unresolved_targets(graph).map((i) => [
+				i.path,
+				i.message,
+			]),
+		).toStrictEqual([
+			["a.md", "Links to a note that doesn't exist: 'b.md'"],
+		]);
+	});
+});
+
+describe("lint_orphans", () => {
+	test("no edges in the group", () => {
+		const graph = new BCGraph({
+			nodes: [{ id: "d.md", attr: { resolved: true } }],
+			edges: [
+				_mock_edge("a.md", "b.md", { field: "up" }),
+				_mock_edge("b.md", "c.md", { field: "next" }),
+			],
+		});
+
+		expect(
+			GraphHealth.lint_orphans(graph, {
+				label: "ups",
+				fields: ["up"],
+			}).map((i) => i.path),
+		).toStrictEqual(["d.md", "c.md"]);
+	});
+});
+
+describe("lint_note_metadata", () => {
+	const edge_fields = [{ label: "up" }, { label: "next-note" }];
+
+	test("obsidian", () => {
+		const all_files = {
+			obsidian: [
+				{
+					file: { path: "a.md" },
+					cache: {
+						frontmatter: { "BC-tag-note": "#tag", up: "[[b]]" },
+						frontmatterLinks: [
+							{ key: "up", link: "b" },
+							{ key: "parent.0", link: "b" },
+							{ key: "parent.1", link: "c" },
+							{ key: "aliases.0", link: "d" },
+						],
+					},
+				},
+			],
+		} as unknown as AllFiles;
+
+		expect(
+			GraphHealth.lint_note_metadata(all_files, edge_fields),
+		).toStrictEqual([
+			{
+				path: "a.md",
+				kind: "deprecated_key",
+				source: "deprecated_key",
+				message:
+					"'BC-tag-note' is deprecated in favor of 'BC-tag-note-tag'",
+				fixes: [
+					{
+						kind: "migrate_key",
+						from: "BC-tag-note",
+						to: "BC-tag-note-tag",
+					},
+				],
+			},
+			{
+				path: "a.md",
+				kind: "undeclared_field",
+				source: "undeclared_field",
+				message: "'parent' holds links, but isn't an edge field",
+				fixes: [
+					{ kind: "declare_field", field: "parent" },
+					{ kind: "open_file" },
+				],
+			},
+		]);
+	});
+
+	test("dataview", () => {
+		const link = { path: "b.md", type: "file" };
+
+		const all_files = {
+			dataview: [
+				{
+					file: { path: "a.md", outlinks: [link] },
+					"Next Note": link,
+					"next-note": link,
+					Parent: [link],
+					parent: [link],
+					status: "done",
+				},
+			],
+		} as unknown as AllFiles;
+
+		expect(
+			GraphHealth.lint_note_metadata(all_files, edge_fields).map(
+				(i) => i.message,
+			),
+		).toStrictEqual(["'parent' holds links, but isn't an edge field"]);
+	});
+});
+
+describe("group_issues", () => {
+	test("by source, then path", () => {
+		const issue = (source: string, path: string) => ({
+			source,
+			path,
+			kind: "orphan" as const,
+			message: "",
+			fixes: [],
+		});
+
+		expect(
+			GraphHealth.group_issues([
+				issue("orphan", "a.md"),
+				issue("orphan", "a.md"),
+				issue("typed_link", "b.md"),
+			]),
+		).toStrictEqual({
+			orphan: {
+				"a.md": [issue("orphan", "a.md"), issue("orphan", "a.md")],
+			},
+			typed_link: { "b.md": [issue("typed_link", "b.md")] },
+		});
+	});
+});
@@ -0,0 +1,70 @@
+import { GraphLayout } from "src/graph/layout";
+import { describe, expect, test } from "vitest";
+
+const edges = [
+	{ source_id: "a", target_id: "b" },
+	{ source_id: "a", target_id: "c" },
+	{ source_id: "b", target_id: "d" },
+	{ source_id: "c", target_id: "d" },
+];
+
+const distance = (
+	positions: ReturnType<typeof GraphLayout.compute>,
+	a: string,
+	b: string,
+) =>
+	Math.hypot(
+		positions.get(a)!.x - positions.get(b)!.x,
+		positions.get(a)!.y - positions.get(b)!.y,
+	);
+
+describe("get_node_ids", () => {
+	test("root first, then in order of appearance", () => {
+		expect(GraphLayout.get_node_ids(edges, "d")).toStrictEqual([
+			"d",
+			"a",
+			"b",
+			"c",
+		]);
+	});
+});
+
+describe("force", () => {
+	test("pins the root, and keeps linked nodes closer", () => {
+		const positions = GraphLayout.compute(
+			"force",
+			[...edges, { source_id: "e", target_id: "f" }],
+			{ root_id: "a" },
+		);
+
+		expect(positions.get("a")).toStrictEqual({ x: 0, y: 0 });
+		expect(distance(positions, "a", "b")).toBeLessThan(
+			distance(positions, "a", "f"),
+		);
+	});
+
+	test("is deterministic", () => {
+		expect(GraphLayout.compute("force", edges)).toStrictEqual(
+			GraphLayout.compute("force", edges),
+		);
+	});
+});
+
+describe("hierarchical", () => {
+	test("layers by distance from the root", () => {
+		const positions = GraphLayout.compute(
+			"hierarchical",
+			[...edges, { source_id: "e", target_id: "f" }],
+			{ root_id: "a" },
+		);
+
+		expect(positions.get("a")).toStrictEqual({ x: 0, y: 0 });
+		expect(positions.get("b")).toStrictEqual({ x: -55, y: 90 });
+		expect(positions.get("c")).toStrictEqual({ x: 55, y: 90 });
+		expect(positions.get("d")).toStrictEqual({ x: 0, y: 180 });
+
+		// Unreachable from the root
+		expect(positions.get("e")?.y).toBe(270);
+		expect(positions.get("f")?.y).toBe(270);
+	});
+});
@@ -1,5 +1,6 @@
 import { BCGraph } from "src/graph/MyMultiGraph";
 import { Traverse } from "src/graph/traverse";
+import { get_edge_sorter } from "src/graph/utils";
 import { _mock_edge } from "tests/__mocks__/graph";
 import { describe, expect, test } from "vitest";
 
@@ -104,3 +105,228 @@ describe("all_paths", () => {
 
 	// TODO: Different hierarchies shouldn't contribute to the same path
 });
+
+describe("get_transitive_chain_target_ids", () => {
+	const graph = new BCGraph({
+		edges: [
+			_mock_edge("me", "spouse", { field: "spouse" }),
+			_mock_edge("spouse", "me", { field: "spouse" }),
+			_mock_edge("spouse", "sibling", { field: "sibling" }),
+			_mock_edge("sibling", "spouse", { field: "sibling" }),
+			_mock_edge("sibling", "other-sibling", { field: "sibling" }),
+		],
+	});
+
+	const chain = [
+		{ field: "spouse" },
+		{ field: "sibling" },
+		{ field: "sibling" },
+	];
+
+	test("doesn't revisit nodes by default", () => {
+		expect(
+			Traverse.get_transitive_chain_target_ids(graph, "me", chain),
+		).toStrictEqual(["other-sibling"]);
+	});
+
+	test("allow_revisits", () => {
+		expect(
+			Traverse.get_transitive_chain_target_ids(graph, "me", chain, {
+				allow_revisits: true,
+			}),
+		).toStrictEqual(["spouse", "other-sibling"]);
+	});
+
+	test("paths are tracked separately", () => {
+		// Both paths pass through c, but neither revisits it
+		const diamond = new BCGraph({
+			edges: [
+				_mock_edge("a", "b1", {}),
+				_mock_edge("a", "b2", {}),
+				_mock_edge("b1", "c", {}),
+				_mock_edge("b2", "c", {}),
+				_mock_edge("c", "d", {}),
+			],
+		});
+
+		expect(
+			Traverse.get_transitive_chain_target_ids(diamond, "a", [
+				{ field: "down" },
+				{ field: "down" },
+				{ field: "down" },
+			]),
+		).toStrictEqual(["d"]);
+	});
+
+	test("edge_filter", () => {
+		expect(
+			Traverse.get_transitive_chain_target_ids(graph, "me", chain, {
+				edge_filter: (item) => item.edge.target_id !== "other-sibling",
+			}),
+		).toStrictEqual([]);
+	});
+});
+
+describe("all_paths_between", () => {
+	const graph = new BCGraph({
+		edges: [
+			_mock_edge("a", "b", {}),
+			_mock_edge("b", "c", {}),
+			_mock_edge("c", "a", {}),
+			_mock_edge("a", "c", { field: "up" }),
+			_mock_edge("c", "d", {}),
+		],
+	});
+
+	const to_ids = (paths: ReturnType<typeof Traverse.all_paths_between>) =>
+		paths.map((path) => [
+			path[0].source_id,
+			...path.map((e) => e.target_id),
+		]);
+
+	test("shortest first, no cycles", () => {
+		expect(
+			to_ids(Traverse.all_paths_between(graph, "a", "d")),
+		).toStrictEqual([
+			["a", "c", "d"],
+			["a", "b", "c", "d"],
+		]);
+	});
+
+	test("edge_filter, max_depth", () => {
+		expect(
+			to_ids(
+				Traverse.all_paths_between(
+					graph,
+					"a",
+					"d",
+					(e) => e.attr.field === "down",
+				),
+			),
+		).toStrictEqual([["a", "b", "c", "d"]]);
+
+		expect(
+			Traverse.all_paths_between(graph, "a", "d", undefined, {
+				max_depth: 2,
+			}).length,
+		).toBe(1);
+	});
+
+	test("max_paths keeps the shortest paths", () => {
+		expect(
+			to_ids(
+				Traverse.all_paths_between(graph, "a", "d", undefined, {
+					max_paths: 1,
+				}),
+			),
+		).toStrictEqual([["a", "c", "d"]]);
+
+		expect(
+			Traverse.all_paths_between(graph, "a", "d", undefined, {
+				max_paths: 5,
+			}).length,
+		).toBe(2);
+	});
+
+	test("min_depth", () => {
+		expect(
+			to_ids(
+				Traverse.all_paths_between(graph, "a", "d", undefined, {
+					min_depth: 3,
+					max_paths: 1,
+				}),
+			),
+		).toStrictEqual([["a", "b", "c", "d"]]);
+	});
+
+	test("missing or same node", () => {
+		expect(Traverse.all_paths_between(graph, "a", "x")).toStrictEqual([]);
+		expect(Traverse.all_paths_between(graph, "a", "a")).toStrictEqual([]);
+	});
+});
+
+describe("shortest_path_between", () => {
+	const graph = new BCGraph({
+		edges: [
+			_mock_edge("a", "b", {}),
+			_mock_edge("b", "c", {}),
+			_mock_edge("c", "d", {}),
+			_mock_edge("a", "c", { field: "up" }),
+		],
+	});
+
+	test("fewest edges", () => {
+		expect(
+			Traverse.shortest_path_between(graph, "a", "d")?.map(
+				(e) => e.target_id,
+			),
+		).toStrictEqual(["c", "d"]);
+	});
+
+	test("edge_filter", () => {
+		expect(
+			Traverse.shortest_path_between(
+				graph,
+				"a",
+				"d",
+				(e) => e.attr.field === "down",
+			)?.map((e) => e.target_id),
+		).toStrictEqual(["b", "c", "d"]);
+	});
+
+	test("no path", () => {
+		expect(Traverse.shortest_path_between(graph, "d", "a")).toBe(null);
+	});
+});
+
+describe("k_shortest_paths_between", () => {
+	test("shortest first, then by length", () => {
+		const graph = new BCGraph({
+			edges: [
+				_mock_edge("a", "b", {}),
+				_mock_edge("b", "e", {}),
+				_mock_edge("a", "c", {}),
+				_mock_edge("c", "d", {}),
+				_mock_edge("d", "e", {}),
+				_mock_edge("a", "e", {}),
+				_mock_edge("b", "c", {}),
+			],
+		});
+
+		const paths = Traverse.k_shortest_paths_between(graph, "a", "e", 3).map(
+			(path) => path.map((e) => e.target_id).join(""),
+		);
+
+		expect(paths).toStrictEqual(["e", "be", "cde"]);
+
+		// All of them, and no more
+		expect(
+			Traverse.k_shortest_paths_between(graph, "a", "e", 10).length,
+		).toBe(Traverse.all_paths_between(graph, "a", "e").length);
+	});
+});
+
+describe("sort_edge_paths", () => {
+	test("shortest first, then by the first differing edge", () => {
+		const graph = new BCGraph({
+			edges: [
+				_mock_edge("a", "b", {}),
+				_mock_edge("a", "c", {}),
+				_mock_edge("a", "e", {}),
+				_mock_edge("b", "d", {}),
+				_mock_edge("b", "e", {}),
+				_mock_edge("c", "e", {}),
+				_mock_edge("d", "e", {}),
+			],
+		});
+
+		const paths = Traverse.all_paths_between(graph, "a", "e").reverse();
+
+		const sorted = Traverse.sort_edge_paths(
+			paths,
+			get_edge_sorter({ field: "basename", order: -1 }, graph),
+		).map((path) => path.map((e) => e.target_id).join(""));
+
+		expect(sorted).toStrictEqual(["e", "ce", "be", "bde"]);
+	});
+});
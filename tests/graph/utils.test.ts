@@ -1,4 +1,12 @@
-import { is_self_loop } from "src/graph/utils";
+import type { BCEdge } from "src/graph/MyMultiGraph";
+import {
+	has_edge_attrs,
+	is_self_loop,
+	matches_edge_ignore_filter,
+	parse_edge_attr_filters,
+	parse_edge_ignore_filter,
+	stringify_edge_attr_filters,
+} from "src/graph/utils";
 import { _mock_edge } from "tests/__mocks__/graph";
 import { describe, test } from "vitest";
 
@@ -12,6 +20,222 @@ describe("is_self_loop", () => {
 	});
 });
 
+describe("parse_edge_ignore_filter", () => {
+	test("empty", (t) => {
+		t.expect(parse_edge_ignore_filter(undefined)).toStrictEqual({
+			ok: true,
+			data: undefined,
+		});
+	});
+
+	test("true", (t) => {
+		t.expect(parse_edge_ignore_filter(true)).toStrictEqual({
+			ok: true,
+			data: {},
+		});
+	});
+
+	test("checkbox saved as text", (t) => {
+		t.expect(parse_edge_ignore_filter("true")).toStrictEqual({
+			ok: true,
+			data: {},
+		});
+
+		t.expect(parse_edge_ignore_filter(" False ")).toStrictEqual({
+			ok: true,
+			data: undefined,
+		});
+	});
+
+	test("filter", (t) => {
+		t.expect(
+			parse_edge_ignore_filter(
+				"source=tag-note source=regex_note field=down explicit=true",
+			),
+		).toStrictEqual({
+			ok: true,
+			data: {
+				sources: ["tag_note", "regex_note"],
+				fields: ["down"],
+				explicit: true,
+			},
+		});
+	});
+
+	test("list", (t) => {
+		t.expect(
+			parse_edge_ignore_filter(["field=up", "field=down"]),
+		).toStrictEqual({ ok: true, data: { fields: ["up", "down"] } });
+	});
+
+	test("invalid", (t) => {
+		t.expect(parse_edge_ignore_filter("source=nope").ok).toBe(false);
+		t.expect(parse_edge_ignore_filter("explicit=maybe").ok).toBe(false);
+		t.expect(parse_edge_ignore_filter("nope=up").ok).toBe(false);
+	});
+});
+
+describe("matches_edge_ignore_filter", () => {
+	const edge = _mock_edge("a", "b", { source: "tag_note", field: "up" });
+
+	test("no filter", (t) => {
+		t.expect(matches_edge_ignore_filter(edge.attr)).toBe(false);
+	});
+
+	test("empty filter", (t) => {
+		t.expect(matches_edge_ignore_filter(edge.attr, {})).toBe(true);
+	});
+
+	test("all keys must match", (t) => {
+		t.expect(
+			matches_edge_ignore_filter(edge.attr, {
+				sources: ["tag_note"],
+				fields: ["up", "down"],
+			}),
+		).toBe(true);
+
+		t.expect(
+			matches_edge_ignore_filter(edge.attr, {
+				sources: ["tag_note"],
+				explicit: false,
+			}),
+		).toBe(false);
+	});
+
+	test("implied edges have no source", (t) => {
+		t.expect(
+			matches_edge_ignore_filter(
+				_mock_edge("a", "b", { explicit: false }).attr,
+				{ sources: ["tag_note"] },
+			),
+		).toBe(false);
+	});
+});
+
+describe("has_edge_attrs", () => {
+	const explicit = _mock_edge("a", "b", {
+		field: "up",
+		source: "list_note",
+	}) as BCEdge;
+	const implied = _mock_edge("a", "b", {
+		round: 2,
+		field: "up",
+		explicit: false,
+		implied_kind: "transitive:siblings",
+	}) as BCEdge;
+
+	test("source", (t) => {
+		t.expect(has_edge_attrs(explicit, { source: "list_note" })).toBe(true);
+		t.expect(has_edge_attrs(explicit, { source: "tag_note" })).toBe(false);
+		t.expect(has_edge_attrs(implied, { source: "list_note" })).toBe(false);
+
+		t.expect(
+			has_edge_attrs(explicit, {
+				$or_sources: ["tag_note", "list_note"],
+			}),
+		).toBe(true);
+	});
+
+	test("implied_kind", (t) => {
+		t.expect(
+			has_edge_attrs(implied, { implied_kind: "transitive:siblings" }),
+		).toBe(true);
+		t.expect(
+			has_edge_attrs(explicit, { implied_kind: "transitive:siblings" }),
+		).toBe(false);
+	});
+
+	test("round", (t) => {
+		t.expect(has_edge_attrs(explicit, { round: { max: 0 } })).toBe(true);
+		t.expect(has_edge_attrs(implied, { round: { max: 1 } })).toBe(false);
+		t.expect(has_edge_attrs(implied, { round: { min: 1, max: 2 } })).toBe(
+			true,
+		);
+	});
+
+	test("negations", (t) => {
+		t.expect(has_edge_attrs(explicit, { $not_fields: ["up"] })).toBe(false);
+		t.expect(has_edge_attrs(explicit, { $not_sources: ["tag_note"] })).toBe(
+			true,
+		);
+
+		// Implied edges have no source, so can't be excluded by it
+		t.expect(has_edge_attrs(implied, { $not_sources: ["list_note"] })).toBe(
+			true,
+		);
+		t.expect(
+			has_edge_attrs(implied, {
+				$not_implied_kinds: ["transitive:siblings"],
+			}),
+		).toBe(false);
+	});
+});
+
+describe("parse_edge_attr_filters", () => {
+	test("lone field", (t) => {
+		t.expect(parse_edge_attr_filters(" up ")).toStrictEqual({
+			ok: true,
+			data: { field: "up" },
+		});
+	});
+
+	test("filters", (t) => {
+		t.expect(
+			parse_edge_attr_filters(
+				"field=up field=down source=list-note explicit=true round=1.. implied_kind!=transitive:x",
+			),
+		).toStrictEqual({
+			ok: true,
+			data: {
+				$or_fields: ["up", "down"],
+				source: "list_note",
+				explicit: true,
+				round: { min: 1 },
+				$not_implied_kinds: ["transitive:x"],
+			},
+		});
+	});
+
+	test("round", (t) => {
+		const round = (str: string) => {
+			const parsed = parse_edge_attr_filters(`round=${str}`);
+			return parsed.ok ? parsed.data.round : parsed.error;
+		};
+
+		t.expect(round("2")).toStrictEqual({ min: 2, max: 2 });
+		t.expect(round("1..3")).toStrictEqual({ min: 1, max: 3 });
+		t.expect(round("..2")).toStrictEqual({ max: 2 });
+		t.expect(round("3..1")).toBe("Invalid edge filter round: '3..1'");
+		t.expect(round("..")).toBe("Invalid edge filter round: '..'");
+	});
+
+	test("invalid", (t) => {
+		t.expect(parse_edge_attr_filters("").ok).toBe(false);
+		t.expect(parse_edge_attr_filters("source=nope").ok).toBe(false);
+		t.expect(parse_edge_attr_filters("explicit=maybe").ok).toBe(false);
+		t.expect(parse_edge_attr_filters("round!=1").ok).toBe(false);
+		t.expect(parse_edge_attr_filters("nope=up").ok).toBe(false);
+	});
+});
+
+describe("stringify_edge_attr_filters", () => {
+	test("lone field", (t) => {
+		t.expect(stringify_edge_attr_filters({ field: "up" })).toBe("up");
+	});
+
+	test("round-trip", (t) => {
+		const str =
+			"field=up source=list_note round=0..1 source!=tag_note field!=down";
+
+		const parsed = parse_edge_attr_filters(str);
+		if (!parsed.ok) throw new Error("This should not happen");
+
+		t.expect(stringify_edge_attr_filters(parsed.data)).toBe(
+			"field=up source=list_note round=0..1 field!=down source!=tag_note",
+		);
+	});
+});
+
 // const get_edges = () => [
 // 	_mock_edge("1/a", "1/b", { field: "a" }),
 // 	_mock_edge("1/b", "2/c", { field: "a" }),
@@ -136,6 +136,10 @@ describe("migration", () => {
 						rounds: 1,
 					},
 				],
+
+				inverse: [],
+
+				symmetric: [],
 			},
 
 			explicit_edge_sources: {
@@ -166,6 +170,9 @@ describe("migration", () => {
 					delimiter: ".",
 					default_field: "up",
 				},
+				csv_note: {
+					paths: [],
+				},
 			},
 			views: {
 				page: {
@@ -237,6 +244,17 @@ describe("migration", () => {
 							alias: false,
 						},
 					},
+					graph: {
+						depth: 2,
+						layout: "force",
+						edge_kind: "all",
+						field_group_labels: ["ups", "downs", "sames"],
+						show_node_options: {
+							ext: false,
+							folder: false,
+							alias: false,
+						},
+					},
 				},
 				codeblocks: {
 					show_node_options: {
@@ -253,6 +271,7 @@ describe("migration", () => {
 						note_save: false,
 						layout_change: false,
 					},
+					note_save_debounce_ms: 1000,
 				},
 				list_index: {
 					default_options: {
@@ -344,6 +363,9 @@ describe("migration", () => {
 					delimiter: ".",
 					default_field: "up",
 				},
+				csv_note: {
+					paths: [],
+				},
 			},
 			views: {
 				page: {
@@ -415,6 +437,17 @@ describe("migration", () => {
 						merge_fields: false,
 						field_group_labels: ["downs"],
 					},
+					graph: {
+						depth: 2,
+						layout: "force",
+						edge_kind: "all",
+						field_group_labels: ["ups", "downs", "sames"],
+						show_node_options: {
+							ext: false,
+							folder: false,
+							alias: false,
+						},
+					},
 				},
 				codeblocks: {
 					show_node_options: {
@@ -431,6 +464,7 @@ describe("migration", () => {
 						note_save: false,
 						layout_change: false,
 					},
+					note_save_debounce_ms: 1000,
 				},
 				list_index: {
 					default_options: {
@@ -676,6 +710,10 @@ describe("migration", () => {
 						name: "",
 					},
 				],
+
+				inverse: [],
+
+				symmetric: [],
 			},
 		} satisfies BreadcrumbsSettings);
 	});
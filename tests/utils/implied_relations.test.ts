@@ -0,0 +1,60 @@
+import {
+	get_inverse_rule_name,
+	has_node_tag,
+	matches_implied_relation_conditions,
+} from "src/utils/implied_relations";
+import { describe, expect, test } from "vitest";
+
+describe("get_inverse_rule_name", () => {
+	test("regular", () => {
+		expect(
+			get_inverse_rule_name({ field: "up", inverse_field: "down" }),
+		).toBe("up <-> down");
+	});
+});
+
+describe("has_node_tag", () => {
+	const node = { resolved: true, tags: ["#Person/friend", "#project"] };
+
+	test("exact", () => {
+		expect(has_node_tag(node, "#project")).toBe(true);
+		expect(has_node_tag(node, "project")).toBe(true);
+	});
+
+	test("nested, case-insensitive", () => {
+		expect(has_node_tag(node, "#person")).toBe(true);
+		expect(has_node_tag(node, "#person/friend")).toBe(true);
+	});
+
+	test("not a prefix of the tag name", () => {
+		expect(has_node_tag(node, "#pro")).toBe(false);
+		expect(has_node_tag({ resolved: true }, "#project")).toBe(false);
+	});
+});
+
+describe("matches_implied_relation_conditions", () => {
+	const nodes = {
+		source: { resolved: true, tags: ["#person"] },
+		target: { resolved: true, tags: ["#place"] },
+	};
+
+	test("no conditions", () => {
+		expect(matches_implied_relation_conditions(nodes)).toBe(true);
+	});
+
+	test("all must match", () => {
+		expect(
+			matches_implied_relation_conditions(nodes, [
+				{ node: "source", tag: "#person" },
+				{ node: "target", tag: "#place" },
+			]),
+		).toBe(true);
+
+		expect(
+			matches_implied_relation_conditions(nodes, [
+				{ node: "source", tag: "#person" },
+				{ node: "target", tag: "#person" },
+			]),
+		).toBe(false);
+	});
+});
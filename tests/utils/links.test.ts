@@ -54,3 +54,26 @@ describe("Links.ify", () => {
 		).toBe(`[${display}](${path})`);
 	});
 });
+
+describe("Links.parse_linkpath", () => {
+	test("wiki", (t) => {
+		t.expect(Links.parse_linkpath("[[folder/note]]")).toBe("folder/note");
+		t.expect(Links.parse_linkpath("[[note#heading|alias]]")).toBe("note");
+		t.expect(Links.parse_linkpath("![[note.png]]")).toBe("note.png");
+	});
+
+	test("markdown", (t) => {
+		t.expect(Links.parse_linkpath("[alias](folder/my%20note.md)")).toBe(
+			"folder/my note.md",
+		);
+		t.expect(Links.parse_linkpath("[alias](<note.md#heading>)")).toBe(
+			"note.md",
+		);
+	});
+
+	test("not a link", (t) => {
+		t.expect(Links.parse_linkpath("note")).toBe(null);
+		t.expect(Links.parse_linkpath("[[a]] and [[b]]")).toBe(null);
+		t.expect(Links.parse_linkpath("[[#heading]]")).toBe(null);
+	});
+});
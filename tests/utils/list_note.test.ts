@@ -0,0 +1,234 @@
+import type { CachedMetadata } from "obsidian";
+import type { IDataview } from "src/external/dataview/interfaces";
+import { ListNote } from "src/utils/list_note";
+import { describe, expect, test } from "vitest";
+
+const LINK_REGEX = /\[\[(.+?)\]\]/g;
+
+/** Mock both the Obsidian cache + content, and the Dataview page, for the same list-note */
+const _mock_list_note = (lines: string[]) => {
+	const content = lines.join("\n");
+
+	const list_items: NonNullable<CachedMetadata["listItems"]> = [];
+	const links: NonNullable<CachedMetadata["links"]> = [];
+	const dv_lists: IDataview.NoteList[] = [];
+
+	let offset = 0;
+	lines.forEach((line_text, line) => {
+		const col = line_text.match(/^\s*/)![0].length;
+
+		const position = {
+			start: { line, col, offset: offset + col },
+			end: {
+				line,
+				col: line_text.length,
+				offset: offset + line_text.length,
+			},
+		};
+
+		const parent = list_items
+			.slice()
+			.reverse()
+			.find((item) => item.position.start.col < col);
+
+		list_items.push({
+			position,
+			parent: parent ? parent.position.start.line : -1,
+		});
+
+		const outlinks: IDataview.Link[] = [];
+		for (const match of line_text.matchAll(LINK_REGEX)) {
+			const start = offset + match.index!;
+			const end = start + match[0].length;
+
+			links.push({
+				link: match[1],
+				original: match[0],
+				position: {
+					start: { line, col: match.index!, offset: start },
+					end: {
+						line,
+						col: match.index! + match[0].length,
+						offset: end,
+					},
+				},
+			});
+
+			outlinks.push({
+				path: match[1].split("#")[0],
+				display: undefined,
+				embed: false,
+				subpath: undefined,
+				type: "file",
+			});
+		}
+
+		const dv_list: IDataview.NoteList = {
+			annotated: false,
+			children: [],
+			outlinks,
+			text: line_text.slice(col).replace(/^- /, ""),
+			position,
+		};
+
+		if (parent) {
+			dv_lists
+				.find(
+					(item) =>
+						item.position.start.line === parent.position.start.line,
+				)!
+				.children.push(dv_list);
+		}
+		dv_lists.push(dv_list);
+
+		offset += line_text.length + 1;
+	});
+
+	return {
+		content,
+		cache: { listItems: list_items, links } as CachedMetadata,
+		page: {
+			file: { path: "index.md", lists: { values: dv_lists } },
+		} as unknown as IDataview.Page,
+	};
+};
+
+const list_note = {
+	path: "index.md",
+	field: "down",
+	exclude_index: false,
+	neighbour_field: undefined,
+};
+
+const field_labels = new Set(["up", "down", "same", "next"]);
+
+/** Run get_edges on both branches, and check they agree */
+const get_edges = (
+	lines: string[],
+	info: Partial<Parameters<typeof ListNote.get_edges>[1]> = {},
+) => {
+	const mock = _mock_list_note(lines);
+
+	const obsidian = ListNote.get_edges(
+		ListNote.items_from_obsidian(mock.cache, mock.content, "index.md"),
+		{ ...list_note, ...info },
+		field_labels,
+	);
+	const dataview = ListNote.get_edges(
+		ListNote.items_from_dataview(mock.page),
+		{ ...list_note, ...info },
+		field_labels,
+	);
+
+	expect(obsidian).toStrictEqual(dataview);
+
+	return obsidian;
+};
+
+describe("items_from_obsidian", () => {
+	test("text, link_path, children", () => {
+		const mock = _mock_list_note([
+			"- [[a]]",
+			"\t- [[b#heading]] and [[c]]",
+			"- plain text",
+		]);
+
+		const items = ListNote.items_from_obsidian(
+			mock.cache,
+			mock.content,
+			"index.md",
+		);
+
+		expect(
+			items.map((item) => ({
+				text: item.text,
+				link_path: item.link_path,
+				children: item.children.map((child) => child.text),
+			})),
+		).toStrictEqual([
+			{
+				text: "[[a]]",
+				link_path: "a",
+				children: ["[[b#heading]] and [[c]]"],
+			},
+			{ text: "[[b#heading]] and [[c]]", link_path: "b", children: [] },
+			{ text: "plain text", link_path: undefined, children: [] },
+		]);
+	});
+
+	test("task", () => {
+		const mock = _mock_list_note(["- [ ] up [[a]]"]);
+
+		expect(
+			ListNote.items_from_obsidian(
+				mock.cache,
+				mock.content,
+				"index.md",
+			)[0].text,
+		).toBe("up [[a]]");
+	});
+});
+
+describe("get_edges", () => {
+	test("nesting", () => {
+		const { edges, errors } = get_edges([
+			"- [[a]]",
+			"\t- [[b]]",
+			"\t\t- [[c]]",
+			"- [[d]]",
+		]);
+
+		expect(errors).toStrictEqual([]);
+		expect(edges).toStrictEqual([
+			{ source_path: "index.md", target_path: "a", field: "down" },
+			{ source_path: "a", target_path: "b", field: "down" },
+			{ source_path: "b", target_path: "c", field: "down" },
+			{ source_path: "index.md", target_path: "d", field: "down" },
+		]);
+	});
+
+	test("exclude_index", () => {
+		const { edges } = get_edges(["- [[a]]", "\t- [[b]]"], {
+			exclude_index: true,
+		});
+
+		expect(edges).toStrictEqual([
+			{ source_path: "a", target_path: "b", field: "down" },
+		]);
+	});
+
+	test("neighbour_field", () => {
+		const { edges } = get_edges(
+			["- [[a]]", "\t- [[b]]", "\t- [[c]]", "- [[d]]", "\t- [[e]]"],
+			{ exclude_index: true, neighbour_field: "next" },
+		);
+
+		expect(edges).toStrictEqual([
+			{ source_path: "a", target_path: "d", field: "next" },
+			{ source_path: "a", target_path: "b", field: "down" },
+			{ source_path: "a", target_path: "c", field: "down" },
+			{ source_path: "b", target_path: "c", field: "next" },
+			{ source_path: "d", target_path: "e", field: "down" },
+		]);
+	});
+
+	test("field override", () => {
+		const { edges } = get_edges(["- up [[a]]", "\t- same [[b]]"]);
+
+		expect(edges).toStrictEqual([
+			{ source_path: "index.md", target_path: "a", field: "up" },
+			{ source_path: "a", target_path: "b", field: "same" },
+		]);
+	});
+
+	test("invalid field override", () => {
+		const { edges, errors } = get_edges(["- [[a]]", "\t- nope [[b]]"]);
+
+		expect(edges).toStrictEqual([
+			{ source_path: "index.md", target_path: "a", field: "down" },
+		]);
+		expect(errors.map((e) => e.code)).toStrictEqual([
+			"invalid_field_value",
+		]);
+	});
+});
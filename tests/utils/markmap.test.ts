@@ -0,0 +1,129 @@
+import { BCGraph } from "src/graph/MyMultiGraph";
+import { Traverse } from "src/graph/traverse";
+import { Markmap } from "src/utils/markmap";
+import { _mock_edge } from "tests/__mocks__/graph";
+import { describe, test } from "vitest";
+
+describe("from_tree", () => {
+	const graph = new BCGraph({
+		edges: [
+			_mock_edge("a.md", "b.md", { field: "down" }),
+			_mock_edge("b.md", "c d.md", { field: "down" }),
+			_mock_edge("a.md", "e.md", { field: "same" }),
+		],
+	});
+
+	const root = { id: "a.md", attr: { resolved: true } };
+	const tree = Traverse.build_tree(graph, "a.md", {});
+
+	test("!options", (t) => {
+		t.expect(
+			Markmap.from_tree(root, tree, { get_node_href: (id) => id }),
+		).toBe(
+			`# [a](<a.md>)
+
+- [b](<b.md>)
+\t- [c d](<c d.md>)
+- [e](<e.md>)
+`,
+		);
+	});
+
+	test("options.collapse,show_attributes,get_field_colour", (t) => {
+		t.expect(
+			Markmap.from_tree(root, tree, {
+				collapse: true,
+				show_attributes: ["field"],
+				get_node_href: (id) => id,
+				get_field_colour: (field) =>
+					field === "same" ? "#4e79a7" : undefined,
+			}),
+		).toBe(
+			`---
+markmap:
+  initialExpandLevel: 1
+---
+
+# [a](<a.md>)
+
+- [b](<b.md>) (down)
+\t- [c d](<c d.md>) (down)
+- <span style="color: #4e79a7">[e](<e.md>)</span> (same)
+`,
+		);
+	});
+});
+
+describe("to_data", () => {
+	const graph = new BCGraph({
+		edges: [
+			_mock_edge("a.md", "b.md", { field: "down" }),
+			_mock_edge("b.md", "<c>.md", { field: "same" }),
+		],
+	});
+
+	test("html nodes, colours, attributes", (t) => {
+		t.expect(
+			Markmap.to_data(
+				{ id: "a.md", attr: { resolved: true } },
+				Traverse.build_tree(graph, "a.md", {}),
+				{
+					collapse: true,
+					show_attributes: ["field"],
+					get_node_href: (id) => `obsidian://open?file=${id}`,
+					get_field_colour: (field) =>
+						field === "same" ? "#4e79a7" : undefined,
+				},
+			),
+		).toStrictEqual({
+			collapse: true,
+			root: {
+				content: `<a href="obsidian://open?file=a.md">a</a>`,
+				children: [
+					{
+						content: `<a href="obsidian://open?file=b.md">b</a> (down)`,
+						children: [
+							{
+								content: `<span style="color: #4e79a7"><a href="obsidian://open?file=&lt;c&gt;.md">&lt;c&gt;</a></span> (same)`,
+								children: [],
+							},
+						],
+					},
+				],
+			},
+		});
+	});
+});
+
+describe("to_html", () => {
+	const data = {
+		collapse: false,
+		root: { content: "a</script>", children: [] },
+	};
+
+	const html = Markmap.to_html(data, {
+		title: "<b>",
+		viewer_script: "render('</script>')",
+	});
+
+	test("escapes the title and script tags", (t) => {
+		t.expect(html).toContain("<title>&lt;b&gt;</title>");
+		t.expect(html).toContain(`"a<\\/script>"`);
+		t.expect(html).toContain("render('<\\/script>')");
+		t.expect(html.match(/<\/script>/g)).toHaveLength(2);
+	});
+
+	test("inlines the data and viewer script", (t) => {
+		const data_json = html.match(
+			/<script type="application\/json" id="BC-markmap-data">\n(.*)\n<\/script>/,
+		)?.[1];
+
+		t.expect(JSON.parse(data_json!)).toStrictEqual(data);
+		t.expect(html).toContain('<svg id="BC-markmap"></svg>');
+	});
+
+	test("standalone: loads nothing from the network", (t) => {
+		t.expect(html).not.toMatch(/\ssrc=/i);
+		t.expect(html).not.toMatch(/https?:\/\//i);
+	});
+});
@@ -75,6 +75,110 @@ flowchart LR
 \tclass 0,1,2 internal-link`.trimStart(),
 		);
 	});
+
+	test("config.edge_fields", (t) => {
+		t.expect(
+			Mermaid.from_edges(
+				[
+					...edges,
+					_mock_edge("c.md", "a.md", { explicit: true, field: "up" }),
+				],
+				{
+					edge_fields: [
+						{
+							label: "up",
+							mermaid: { arrow: "thick", colour: "red" },
+						},
+						{ label: "down", mermaid: { arrow: "solid" } },
+					],
+				},
+			).trim(),
+		).toBe(
+			`
+%%{ init: { "flowchart": {} } }%%
+flowchart LR
+\t0("a.md")
+\t1("b.md")
+\t2("c.md")
+
+\t0 ==> 1
+\t1 -.-> 2
+\t2 ==> 0
+\tlinkStyle 0,2 stroke:red,color:red`.trimStart(),
+		);
+	});
+
+	test("config.edge_fields, collapsed", (t) => {
+		t.expect(
+			Mermaid.from_edges(
+				[
+					_mock_edge("a.md", "b.md", {
+						explicit: false,
+						field: "down",
+					}),
+					_mock_edge("b.md", "a.md", { explicit: true, field: "up" }),
+				],
+				{ edge_fields: [{ label: "up", mermaid: { arrow: "thick" } }] },
+			).trim(),
+		).toBe(
+			`
+%%{ init: { "flowchart": {} } }%%
+flowchart LR
+\t0("a.md")
+\t1("b.md")
+
+\t0 === 1`.trimStart(),
+		);
+	});
+
+	test("config.get_node_classes,get_node_group", (t) => {
+		t.expect(
+			Mermaid.from_edges(edges, {
+				get_node_classes: (id) =>
+					id === "a.md" ? ["#tag/nested"] : ["#other"],
+				get_node_group: (id) => (id === "a.md" ? undefined : "folder"),
+			}).trim(),
+		).toBe(
+			`
+%%{ init: { "flowchart": {} } }%%
+flowchart LR
+\t0("a.md")
+\tsubgraph G0 ["folder"]
+\t\t1("b.md")
+\t\t2("c.md")
+\tend
+
+\t0 --> 1
+\t1 -.-> 2
+
+\tclassDef BC-class-tag_nested stroke:#4e79a7,stroke-width:2px
+\tclass 0 BC-class-tag_nested
+\tclassDef BC-class-other stroke:#f28e2b,stroke-width:2px
+\tclass 1,2 BC-class-other`.trimStart(),
+		);
+	});
+
+	test("config.shape_by_source", (t) => {
+		t.expect(
+			Mermaid.from_edges(
+				[
+					_mock_edge("a.md", "b.md", { source: "tag_note" }),
+					_mock_edge("b.md", "c.md", { source: "dendron_note" }),
+				],
+				{ shape_by_source: true },
+			).trim(),
+		).toBe(
+			`
+%%{ init: { "flowchart": {} } }%%
+flowchart LR
+\t0("a.md")
+\t1{{"b.md"}}
+\t2[/"c.md"/]
+
+\t0 --> 1
+\t1 --> 2`.trimStart(),
+		);
+	});
 });
 
 // TODO: I need to test more cases here
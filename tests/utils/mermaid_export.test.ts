@@ -0,0 +1,107 @@
+import type { App } from "obsidian";
+import { MermaidExport } from "src/utils/mermaid_export";
+import { describe, expect, test } from "vitest";
+
+describe("get_image_path", () => {
+	const source = "type: mermaid\nfields: [down]";
+
+	test("next to the note, named after the title", () => {
+		expect(
+			MermaidExport.get_image_path("folder/note.md", "svg", {
+				title: "Family: tree?",
+				source,
+			}),
+		).toBe("folder/note - Family tree.svg");
+	});
+
+	test("untitled codeblocks each get their own image", () => {
+		const first = MermaidExport.get_image_path("note.md", "png", {
+			source,
+		});
+		const second = MermaidExport.get_image_path("note.md", "png", {
+			source: "type: mermaid\nfields: [up]",
+		});
+
+		expect(first).toMatch(/^note - Breadcrumbs [0-9a-f]+\.png$/);
+		expect(second).not.toBe(first);
+	});
+
+	test("stable for the same source", () => {
+		expect(MermaidExport.get_image_path("note.md", "svg", { source })).toBe(
+			MermaidExport.get_image_path("note.md", "svg", {
+				source: source + "\n",
+			}),
+		);
+	});
+});
+
+describe("write_image", () => {
+	/** Just enough of app.vault to read and write files */
+	const mock_app = (files: Record<string, string | ArrayBuffer>) => {
+		const writes: string[] = [];
+
+		const write = (file: { path: string }, data: string | ArrayBuffer) => {
+			files[file.path] = data;
+			writes.push(file.path);
+		};
+
+		const app = {
+			vault: {
+				getFileByPath: (path: string) =>
+					path in files ? { path } : null,
+				read: async (file: { path: string }) => files[file.path],
+				readBinary: async (file: { path: string }) => files[file.path],
+				create: async (path: string, data: string) =>
+					write({ path }, data),
+				createBinary: async (path: string, data: ArrayBuffer) =>
+					write({ path }, data),
+				modify: write,
+				modifyBinary: write,
+			},
+		} as unknown as App;
+
+		return { app, files, writes };
+	};
+
+	const bytes = (...values: number[]) => new Uint8Array(values).buffer;
+
+	test("creates new images", async () => {
+		const { app, files } = mock_app({});
+
+		expect(await MermaidExport.write_image(app, "a.svg", "<svg/>")).toBe(
+			true,
+		);
+		expect(await MermaidExport.write_image(app, "a.png", bytes(1))).toBe(
+			true,
+		);
+		expect(Object.keys(files)).toStrictEqual(["a.svg", "a.png"]);
+	});
+
+	test("skips unchanged images", async () => {
+		const { app, writes } = mock_app({
+			"a.svg": "<svg/>",
+			"a.png": bytes(1, 2, 3),
+		});
+
+		expect(await MermaidExport.write_image(app, "a.svg", "<svg/>")).toBe(
+			false,
+		);
+		expect(
+			await MermaidExport.write_image(app, "a.png", bytes(1, 2, 3)),
+		).toBe(false);
+		expect(writes).toStrictEqual([]);
+	});
+
+	test("overwrites changed images", async () => {
+		const { app, writes } = mock_app({
+			"a.svg": "<svg/>",
+			"a.png": bytes(1, 2, 3),
+		});
+
+		await MermaidExport.write_image(app, "a.svg", "<svg></svg>");
+		await MermaidExport.write_image(app, "a.png", bytes(1, 2, 4));
+		await MermaidExport.write_image(app, "a.png", bytes(1, 2));
+
+		expect(writes).toStrictEqual(["a.svg", "a.png", "a.png"]);
+	});
+});
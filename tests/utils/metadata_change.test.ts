@@ -0,0 +1,85 @@
+import type { MetadataCache } from "obsidian";
+import { wait_for_metadata_change } from "src/utils/metadata_change";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+
+/** Just enough of a MetadataCache to subscribe to, and trigger, events */
+const _mock_metadata_cache = () => {
+	const listeners = new Map<string, (...args: unknown[]) => unknown>();
+
+	const metadata_cache = {
+		on: (name: string, callback: (...args: unknown[]) => unknown) => {
+			listeners.set(name, callback);
+			return { name };
+		},
+		offref: (ref: { name: string }) => listeners.delete(ref.name),
+	} as unknown as Pick<MetadataCache, "on" | "offref">;
+
+	const trigger = (name: string, ...args: unknown[]) =>
+		listeners.get(name)?.(...args);
+
+	return { metadata_cache, listeners, trigger };
+};
+
+describe("wait_for_metadata_change", () => {
+	beforeEach(() => {
+		vi.stubGlobal("window", globalThis);
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	const options = { timeout_ms: 2000 };
+
+	test("waits for the metadata cache without Dataview", async () => {
+		const { metadata_cache, listeners, trigger } = _mock_metadata_cache();
+
+		const waiting = wait_for_metadata_change(metadata_cache, "a.md", {
+			...options,
+			dataview: false,
+		});
+
+		expect([...listeners.keys()]).toStrictEqual(["changed"]);
+
+		trigger("changed", { path: "b.md" });
+		trigger("changed", { path: "a.md" });
+
+		expect(await waiting).toBe(true);
+		expect(listeners.size).toBe(0);
+	});
+
+	test("waits for Dataview to reindex the note if it's enabled", async () => {
+		const { metadata_cache, listeners, trigger } = _mock_metadata_cache();
+
+		const waiting = wait_for_metadata_change(metadata_cache, "a.md", {
+			...options,
+			dataview: true,
+		});
+
+		expect([...listeners.keys()]).toStrictEqual([
+			"dataview:metadata-change",
+		]);
+
+		trigger("dataview:metadata-change", "delete", { path: "a.md" });
+		trigger("dataview:metadata-change", "update", { path: "a.md" });
+
+		expect(await waiting).toBe(true);
+		expect(listeners.size).toBe(0);
+	});
+
+	test("gives up after the timeout", async () => {
+		const { metadata_cache, listeners } = _mock_metadata_cache();
+
+		const waiting = wait_for_metadata_change(metadata_cache, "a.md", {
+			...options,
+			dataview: true,
+		});
+
+		vi.advanceTimersByTime(options.timeout_ms);
+
+		expect(await waiting).toBe(false);
+		expect(listeners.size).toBe(0);
+	});
+});
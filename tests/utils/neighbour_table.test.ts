@@ -0,0 +1,97 @@
+import { BCGraph } from "src/graph/MyMultiGraph";
+import { get_edge_sorter } from "src/graph/utils";
+import { NeighbourTable } from "src/utils/neighbour_table";
+import { _mock_edge } from "tests/__mocks__/graph";
+import { describe, expect, test } from "vitest";
+
+const graph = new BCGraph({
+	edges: [
+		_mock_edge("a.md", "b.md", { field: "up" }),
+		_mock_edge("a.md", "c.md", { field: "down" }),
+		_mock_edge("a.md", "d.md", { field: "down" }),
+		_mock_edge("a.md", "e.md", { field: "same" }),
+		_mock_edge("x.md", "y.md", { field: "down" }),
+	],
+});
+
+const sort = get_edge_sorter({ field: "basename", order: -1 }, graph);
+
+const stringify_table = (table: ReturnType<typeof NeighbourTable.build>) => ({
+	columns: table.columns.map((column) => column.label),
+	rows: table.rows.map((row) => [
+		row.path,
+		...row.cells.map((cell) => cell.map((edge) => edge.target_id)),
+	]),
+});
+
+describe("get_columns", () => {
+	test("a column per field", () => {
+		expect(
+			NeighbourTable.get_columns(["up", "down"], undefined),
+		).toStrictEqual([
+			{ label: "up", fields: ["up"] },
+			{ label: "down", fields: ["down"] },
+		]);
+	});
+
+	test("a column per group, and per ungrouped field", () => {
+		expect(
+			NeighbourTable.get_columns(
+				["up", "down", "same"],
+				[{ label: "ups", fields: ["up", "parent"] }],
+			),
+		).toStrictEqual([
+			{ label: "ups", fields: ["up", "parent"] },
+			{ label: "down", fields: ["down"] },
+			{ label: "same", fields: ["same"] },
+		]);
+	});
+});
+
+describe("build", () => {
+	test("a row per note, a sorted cell per column", () => {
+		expect(
+			stringify_table(
+				NeighbourTable.build(graph, ["a.md", "x.md"], {
+					field_labels: ["up", "down"],
+					groups: undefined,
+					sort,
+				}),
+			),
+		).toStrictEqual({
+			columns: ["up", "down"],
+			rows: [
+				["a.md", ["b.md"], ["d.md", "c.md"]],
+				["x.md", [], ["y.md"]],
+			],
+		});
+	});
+
+	test("drops empty columns", () => {
+		expect(
+			stringify_table(
+				NeighbourTable.build(graph, ["x.md"], {
+					field_labels: ["up", "down", "same"],
+					groups: undefined,
+					sort,
+				}),
+			),
+		).toStrictEqual({ columns: ["down"], rows: [["x.md", ["y.md"]]] });
+	});
+
+	test("skips missing notes, and applies edge_filter", () => {
+		expect(
+			stringify_table(
+				NeighbourTable.build(graph, ["", "missing.md", "a.md"], {
+					field_labels: ["down", "same"],
+					groups: undefined,
+					edge_filter: { $or_target_ids: ["c.md", "e.md"] },
+					sort,
+				}),
+			),
+		).toStrictEqual({
+			columns: ["down", "same"],
+			rows: [["a.md", ["c.md"], ["e.md"]]],
+		});
+	});
+});
@@ -82,3 +82,23 @@ describe("show", () => {
 		t.expect(Paths.show(path, { ext: false, folder: false })).toBe("note");
 	});
 });
+
+describe("sibling_export_path", () => {
+	test("next to the note, named after it and the title", (t) => {
+		t.expect(Paths.sibling_export_path(path, "Breadcrumbs", "canvas")).toBe(
+			"folder/note - Breadcrumbs.canvas",
+		);
+	});
+
+	test("in the vault root", (t) => {
+		t.expect(Paths.sibling_export_path("note.md", "Map", "html")).toBe(
+			"note - Map.html",
+		);
+	});
+
+	test("drops characters file names can't have", (t) => {
+		t.expect(Paths.sibling_export_path(path, 'a/b: "c" #[d]?', "svg")).toBe(
+			"folder/note - ab c d.svg",
+		);
+	});
+});
@@ -0,0 +1,117 @@
+import { TableNote } from "src/utils/table_note";
+import { describe, expect, test } from "vitest";
+
+describe("parse_csv", () => {
+	test("simple", () => {
+		expect(TableNote.parse_csv("file,up\na,b\nc,d\n")).toStrictEqual([
+			["file", "up"],
+			["a", "b"],
+			["c", "d"],
+		]);
+	});
+
+	test("quotes, CRLF, empty lines", () => {
+		expect(
+			TableNote.parse_csv(
+				'file,up\r\n"a, b","say ""hi""\nthere"\r\n\r\n,\nc,',
+			),
+		).toStrictEqual([
+			["file", "up"],
+			["a, b", 'say "hi"\nthere'],
+			["c", ""],
+		]);
+	});
+});
+
+describe("parse_markdown_tables", () => {
+	test("multiple tables, escaped pipes", () => {
+		const content = [
+			"# Heading",
+			"",
+			"| file | up |",
+			"| --- | :-: |",
+			"| [[a]] | [[b\\|B]] |",
+			"",
+			"Some text | with a pipe",
+			"",
+			"file | down",
+			"---|---",
+			"c | d",
+		].join("\n");
+
+		expect(TableNote.parse_markdown_tables(content)).toStrictEqual([
+			[
+				["file", "up"],
+				["[[a]]", "[[b\\|B]]"],
+			],
+			[
+				["file", "down"],
+				["c", "d"],
+			],
+		]);
+	});
+});
+
+describe("parse_cell_links", () => {
+	test("wiki links", () => {
+		expect(
+			TableNote.parse_cell_links(
+				"[[a]], [[folder/b#heading\\|B]] [[#c]]",
+			),
+		).toStrictEqual(["a", "folder/b"]);
+	});
+
+	test("plain", () => {
+		expect(TableNote.parse_cell_links(" a note ")).toStrictEqual([
+			"a note",
+		]);
+		expect(TableNote.parse_cell_links("  ")).toStrictEqual([]);
+	});
+});
+
+describe("get_edges", () => {
+	const field_labels = new Set(["up", "same"]);
+
+	test("columns are fields, rows are sources", () => {
+		const { sources, edges, errors } = TableNote.get_edges(
+			[
+				["file", "up", "", "same"],
+				["[[a]]", "[[b]], [[c]]", "ignored", "d"],
+				["", "[[e]]"],
+				["f", "", "", ""],
+			],
+			"relations.csv",
+			field_labels,
+		);
+
+		expect(errors).toStrictEqual([]);
+		expect(sources).toStrictEqual(["a", "f"]);
+		expect(edges).toStrictEqual([
+			{ source_path: "a", target_path: "b", field: "up" },
+			{ source_path: "a", target_path: "c", field: "up" },
+			{ source_path: "a", target_path: "d", field: "same" },
+		]);
+	});
+
+	test("invalid field column", () => {
+		const { edges, errors } = TableNote.get_edges(
+			[
+				["file", "nope", "up"],
+				["a", "b", "c"],
+			],
+			"relations.csv",
+			field_labels,
+		);
+
+		expect(edges).toStrictEqual([
+			{ source_path: "a", target_path: "c", field: "up" },
+		]);
+		expect(errors).toStrictEqual([
+			{
+				path: "relations.csv",
+				code: "invalid_field_value",
+				message: "Table column is not a valid BC field: 'nope'",
+			},
+		]);
+	});
+});
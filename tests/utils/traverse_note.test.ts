@@ -0,0 +1,119 @@
+import { TraverseNote } from "src/utils/traverse_note";
+import { describe, expect, test } from "vitest";
+
+/** The body links of each note. Notes that aren't keys are unresolved */
+const _mock_links = (links: Record<string, string[]>) => (path: string) =>
+	(links[path] ?? []).map((link_path) => ({
+		path: link_path,
+		resolved: link_path in links,
+	}));
+
+const get_edges = (
+	links: Record<string, string[]>,
+	depth = 1,
+	path = "index.md",
+) =>
+	TraverseNote.get_edges(
+		{ path, field: "next", depth },
+		_mock_links(links),
+	).map((edge) => [edge.source_path, edge.target_path]);
+
+describe("get_edges", () => {
+	test("chain of body links", () => {
+		const links = {
+			"index.md": ["a.md", "b.md", "c.md"],
+			"a.md": [],
+			"b.md": [],
+			"c.md": [],
+		};
+
+		expect(get_edges(links)).toStrictEqual([
+			["index.md", "a.md"],
+			["a.md", "b.md"],
+			["b.md", "c.md"],
+		]);
+	});
+
+	test("field", () => {
+		expect(
+			TraverseNote.get_edges(
+				{ path: "index.md", field: "next", depth: 1 },
+				_mock_links({ "index.md": ["a.md"], "a.md": [] }),
+			),
+		).toStrictEqual([
+			{
+				source_path: "index.md",
+				target_path: "a.md",
+				target_resolved: true,
+				field: "next",
+			},
+		]);
+	});
+
+	test("depth 1 doesn't follow nested links", () => {
+		const links = {
+			"index.md": ["a.md", "b.md"],
+			"a.md": ["a1.md"],
+			"b.md": [],
+			"a1.md": [],
+		};
+
+		expect(get_edges(links)).toStrictEqual([
+			["index.md", "a.md"],
+			["a.md", "b.md"],
+		]);
+	});
+
+	test("nested links are followed depth-first", () => {
+		const links = {
+			"index.md": ["a.md", "b.md"],
+			"a.md": ["a1.md", "a2.md"],
+			"a1.md": ["a1x.md"],
+			"a2.md": [],
+			"b.md": ["b1.md"],
+			"a1x.md": [],
+			"b1.md": [],
+		};
+
+		expect(get_edges(links, 2)).toStrictEqual([
+			["index.md", "a.md"],
+			["a.md", "a1.md"],
+			["a1.md", "a2.md"],
+			["a2.md", "b.md"],
+			["b.md", "b1.md"],
+		]);
+
+		expect(get_edges(links, 3)).toContainEqual(["a1.md", "a1x.md"]);
+	});
+
+	test("cycles and repeated links only appear once", () => {
+		const links = {
+			"index.md": ["a.md", "b.md", "a.md"],
+			"a.md": ["index.md", "b.md"],
+			"b.md": ["a.md"],
+		};
+
+		expect(get_edges(links, 5)).toStrictEqual([
+			["index.md", "a.md"],
+			["a.md", "b.md"],
+		]);
+	});
+
+	test("unresolved links are in the chain, but not followed", () => {
+		const edges = TraverseNote.get_edges(
+			{ path: "index.md", field: "next", depth: 3 },
+			_mock_links({ "index.md": ["missing.md", "a.md"], "a.md": [] }),
+		);
+
+		expect(
+			edges.map((edge) => [edge.target_path, edge.target_resolved]),
+		).toStrictEqual([
+			["missing.md", false],
+			["a.md", true],
+		]);
+	});
+
+	test("no links", () => {
+		expect(get_edges({ "index.md": [] })).toStrictEqual([]);
+	});
+});
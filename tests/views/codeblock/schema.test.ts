@@ -43,9 +43,16 @@ describe("happy", () => {
 			"merge-fields": true,
 			fields: ["up", "down"],
 			"start-note": "note.md",
+			"end-note": "other.md",
+			limit: 3,
+			columns: ["status"],
 			"dataview-from": "#tag",
 			"mermaid-renderer": "elk",
 			"mermaid-direction": "LR",
+			"mermaid-class-by": "tags",
+			"mermaid-group-by": "folder",
+			"mermaid-shape-by-source": true,
+			"graph-layout": "hierarchical",
 			"field-groups": ["ups", "downs"],
 			"show-attributes": ["field", "explicit"],
 		};
@@ -59,6 +66,18 @@ describe("happy", () => {
 		});
 	});
 
+	test("edge-filter gets parsed", (t) => {
+		const input = { "edge-filter": "source=dendron_note field!=up" };
+
+		const parsed = CodeblockSchema.build(input, data).safeParse(input);
+		if (!parsed.success) throw new Error("This should not happen");
+
+		t.expect(parsed.data["edge-filter"]).toStrictEqual({
+			source: "dendron_note",
+			$not_fields: ["up"],
+		});
+	});
+
 	test("field-groups get added to fields", (t) => {
 		const input: z.input<ReturnType<typeof CodeblockSchema.build>> = {
 			fields: ["up"],
@@ -98,6 +117,17 @@ describe("sad", () => {
 		t.expect(issue.path).toStrictEqual(["fields"]);
 	});
 
+	test("columns not array", (t) => {
+		const input = { columns: "status" };
+
+		const parsed = CodeblockSchema.build(input, data).safeParse(input);
+		if (parsed.success) throw new Error("This should not happen");
+		const issue = parsed.error.issues[0];
+
+		t.expect(issue.code).toEqual("invalid_type");
+		t.expect(issue.path).toStrictEqual(["columns"]);
+	});
+
 	test("simple invalid enum", (t) => {
 		const input = { type: "invalid" };
 
@@ -122,6 +152,41 @@ describe("sad", () => {
 		t.expect(issue.path).toStrictEqual(["fields", 0]);
 	});
 
+	test("invalid edge-filter", (t) => {
+		const input = { "edge-filter": "source=nope" };
+		const parsed = CodeblockSchema.build(input, data).safeParse(input);
+
+		t.expect(parsed.success).toEqual(false);
+		if (parsed.success) throw new Error("This should not happen");
+
+		const issue = parsed.error.issues[0];
+
+		t.expect(issue.code).toEqual("custom");
+		t.expect(issue.path).toStrictEqual(["edge-filter"]);
+	});
+
+	test("path without end-note", (t) => {
+		const input = { type: "path" };
+
+		const parsed = CodeblockSchema.build(input, data).safeParse(input);
+		if (parsed.success) throw new Error("This should not happen");
+		const issue = parsed.error.issues[0];
+
+		t.expect(issue.code).toEqual("custom");
+		t.expect(issue.path).toStrictEqual(["end-note"]);
+	});
+
+	test("limit not a positive integer", (t) => {
+		const input = { limit: 0 };
+
+		const parsed = CodeblockSchema.build(input, data).safeParse(input);
+		if (parsed.success) throw new Error("This should not happen");
+		const issue = parsed.error.issues[0];
+
+		t.expect(issue.code).toEqual("too_small");
+		t.expect(issue.path).toStrictEqual(["limit"]);
+	});
+
 	describe("depth", () => {
 		test("invalid type", (t) => {
 			const input = { depth: "1" };